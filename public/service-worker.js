@@ -1,3 +1,486 @@
 chrome.action.onClicked.addListener(() => {
   chrome.tabs.create({ url: 'index.html' });
 });
+
+// --- Link checking -------------------------------------------------------
+// The page cannot see status codes of cross-origin responses, but the service
+// worker can thanks to host permissions. Results mirror LinkCheckResult in
+// src/utils/linkCheck.ts.
+
+const LINK_CHECK_TIMEOUT_MS = 15000;
+
+// webRequest reports what fetch() hides: redirect hops and the net:: error code.
+// Only requests of a check in flight are recorded. Each check tracks its URL and
+// the redirect targets it reaches, and drops their entries when it finishes.
+const redirectHops = new Map();
+const networkErrors = new Map();
+const activeChecks = new Set();
+
+const isTracked = (url) => [...activeChecks].some((check) => check.has(url));
+
+if (chrome.webRequest) {
+  const filter = { urls: ['<all_urls>'], tabId: -1 };
+  chrome.webRequest.onBeforeRedirect.addListener((details) => {
+    let tracked = false;
+    for (const check of activeChecks) {
+      if (!check.has(details.url)) continue;
+      check.add(details.redirectUrl);
+      tracked = true;
+    }
+    if (tracked) redirectHops.set(details.url, { status: details.statusCode, to: details.redirectUrl });
+  }, filter);
+  chrome.webRequest.onErrorOccurred.addListener((details) => {
+    if (isTracked(details.url)) networkErrors.set(details.url, details.error);
+  }, filter);
+}
+
+// Runs `run` with requests to `url` tracked; the set is filled before any fetch starts
+const withTracking = async (url, run) => {
+  const check = new Set([url]);
+  activeChecks.add(check);
+  try {
+    return await run();
+  } finally {
+    activeChecks.delete(check);
+    for (const trackedUrl of check) {
+      // Another check of the same URL may still need them
+      if (isTracked(trackedUrl)) continue;
+      redirectHops.delete(trackedUrl);
+      networkErrors.delete(trackedUrl);
+    }
+  }
+};
+
+const collectRedirects = (url) => {
+  const hops = [];
+  const seen = new Set();
+  let current = url;
+  while (redirectHops.has(current) && !seen.has(current)) {
+    seen.add(current);
+    const hop = redirectHops.get(current);
+    redirectHops.delete(current);
+    hops.push({ url: hop.to, status: hop.status });
+    current = hop.to;
+  }
+  return hops;
+};
+
+const takeNetworkError = (url, redirects) => {
+  const urls = [url, ...redirects.map((hop) => hop.url)];
+  for (const candidate of urls.reverse()) {
+    if (networkErrors.has(candidate)) {
+      const error = networkErrors.get(candidate);
+      networkErrors.delete(candidate);
+      return error;
+    }
+  }
+  return undefined;
+};
+
+const fetchWithTimeout = async (url, method, timeoutMs) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method,
+      redirect: 'follow',
+      cache: 'no-store',
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    // Only the status matters; don't download GET bodies
+    response.body?.cancel().catch(() => {});
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const classifyStatus = (status) => {
+  if (status === 404 || status === 410) return 'not-found';
+  if (status >= 500) return 'server-error';
+  if (status >= 400) return 'client-error';
+  return 'ok';
+};
+
+const runCheck = async (url, timeoutMs) => {
+  const startedAt = Date.now();
+  const finish = (result) => ({ url, checkedAt: Date.now(), durationMs: Date.now() - startedAt, ...result });
+
+  if (!/^https?:\/\//i.test(url)) {
+    return finish({ state: 'invalid' });
+  }
+
+  let method = 'HEAD';
+  let response;
+  try {
+    response = await fetchWithTimeout(url, 'HEAD', timeoutMs);
+  } catch (err) {
+    if (err && err.name === 'AbortError') {
+      collectRedirects(url);
+      return finish({ state: 'timeout', method });
+    }
+    // Some servers drop HEAD requests entirely; GET below decides
+  }
+
+  // Many servers answer HEAD with 403/404/405/501 while GET works fine
+  if (!response || response.status >= 400) {
+    method = 'GET';
+    collectRedirects(url);
+    try {
+      response = await fetchWithTimeout(url, 'GET', Math.max(1000, timeoutMs - (Date.now() - startedAt)));
+    } catch (err) {
+      const redirects = collectRedirects(url);
+      if (err && err.name === 'AbortError') {
+        return finish({ state: 'timeout', method, redirects });
+      }
+      const error = takeNetworkError(url, redirects) || String(err && err.message ? err.message : err);
+      const state = /NAME_NOT_RESOLVED|NAME_RESOLUTION_FAILED/.test(error) ? 'dns' : 'network';
+      return finish({ state, method, error, redirects });
+    }
+  }
+
+  const redirects = collectRedirects(url);
+  const state = classifyStatus(response.status);
+  if (state === 'ok' && response.redirected) {
+    return finish({ state: 'redirected', status: response.status, method, finalUrl: response.url, redirects });
+  }
+  return finish({ state, status: response.status, method, finalUrl: response.redirected ? response.url : undefined, redirects });
+};
+
+const checkLink = (url, timeoutMs = LINK_CHECK_TIMEOUT_MS) => withTracking(url, () => runCheck(url, timeoutMs));
+
+// --- Page preview --------------------------------------------------------
+// Many sites refuse to be framed. The page asks for the raw HTML and headers
+// instead and renders a card from them; see src/utils/pagePreview.ts.
+
+const PREVIEW_TIMEOUT_MS = 10000;
+const PREVIEW_MAX_BYTES = 512 * 1024;
+
+// X-Frame-Options or a CSP frame-ancestors list keep the page out of our iframe
+const describeFrameBlock = (headers) => {
+  const frameOptions = (headers.get('x-frame-options') || '').trim();
+  if (/deny|sameorigin/i.test(frameOptions)) return `X-Frame-Options: ${frameOptions.toUpperCase()}`;
+  const csp = headers.get('content-security-policy') || '';
+  const ancestors = /frame-ancestors([^;]*)/i.exec(csp);
+  if (ancestors && !/(^|\s)\*(\s|$)/.test(ancestors[1])) return `CSP frame-ancestors${ancestors[1]}`;
+  return null;
+};
+
+// Honours the charset of the Content-Type header; unknown labels fall back to UTF-8
+const decodeText = (bytes, contentType) => {
+  const charset = /charset=([^;]+)/i.exec(contentType || '');
+  try {
+    return new TextDecoder(charset ? charset[1].trim().replace(/"/g, '') : 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+// Only the head and the first part of the body are needed for a card
+const readLimitedText = async (response, maxBytes) => {
+  const reader = response.body.getReader();
+  const chunks = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  reader.cancel().catch(() => {});
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return decodeText(bytes.subarray(0, maxBytes), response.headers.get('content-type'));
+};
+
+const loadPreview = async (url) => {
+  if (!/^https?:\/\//i.test(url)) {
+    return { url, error: 'Not an http(s) URL' };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      redirect: 'follow',
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    collectRedirects(url);
+    const contentType = response.headers.get('content-type') || '';
+    const isHtml = /text\/html|application\/xhtml\+xml/i.test(contentType);
+    const html = isHtml ? await readLimitedText(response, PREVIEW_MAX_BYTES) : undefined;
+    if (!isHtml) response.body?.cancel().catch(() => {});
+    return {
+      url,
+      status: response.status,
+      finalUrl: response.url,
+      contentType,
+      frameBlockedBy: describeFrameBlock(response.headers),
+      html,
+    };
+  } catch (err) {
+    const redirects = collectRedirects(url);
+    if (err && err.name === 'AbortError') {
+      return { url, error: `Timed out after ${PREVIEW_TIMEOUT_MS / 1000}s` };
+    }
+    return { url, error: takeNetworkError(url, redirects) || String(err && err.message ? err.message : err) };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const fetchPreview = (url) => withTracking(url, () => loadPreview(url));
+
+// --- Page archiving -------------------------------------------------------
+// Archives are assembled in the page (src/utils/archive.ts), which needs the
+// HTML, stylesheets and images without CORS getting in the way.
+
+const ARCHIVE_TIMEOUT_MS = 20000;
+
+const toDataUrl = (bytes, contentType) => {
+  let binary = '';
+  // String.fromCharCode takes its arguments on the stack; go in slices
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+  }
+  const type = (contentType || 'application/octet-stream').split(';')[0].trim();
+  return `data:${type};base64,${btoa(binary)}`;
+};
+
+const loadResource = async (url, as, maxBytes) => {
+  if (!/^https?:\/\//i.test(url)) {
+    return { url, error: 'Not an http(s) URL' };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ARCHIVE_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      redirect: 'follow',
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    collectRedirects(url);
+    const contentType = response.headers.get('content-type') || '';
+    const result = { url, status: response.status, finalUrl: response.url, contentType };
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      response.body?.cancel().catch(() => {});
+      return { ...result, error: 'Too large' };
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > maxBytes) return { ...result, error: 'Too large' };
+    return as === 'dataUrl'
+      ? { ...result, dataUrl: toDataUrl(bytes, contentType) }
+      : { ...result, text: decodeText(bytes, contentType) };
+  } catch (err) {
+    const redirects = collectRedirects(url);
+    if (err && err.name === 'AbortError') {
+      return { url, error: `Timed out after ${ARCHIVE_TIMEOUT_MS / 1000}s` };
+    }
+    return { url, error: takeNetworkError(url, redirects) || String(err && err.message ? err.message : err) };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const fetchResource = (url, as, maxBytes) => withTracking(url, () => loadResource(url, as, maxBytes));
+
+// --- Persisted link report ----------------------------------------------
+// Shape matches LinkReport in src/utils/linkReport.ts. This worker is the only
+// writer, and writes are chained so concurrent checks never drop each other.
+
+const REPORT_KEY = 'linkReport';
+const SETTINGS_KEY = 'linkScanSettings';
+const SCAN_ALARM = 'twin-marks-link-scan';
+const DEFAULT_INTERVAL_HOURS = 24;
+const SCAN_CONCURRENCY = 6;
+const SCAN_FLUSH_EVERY = 25;
+const DEAD_STATES = ['not-found', 'client-error', 'server-error', 'timeout', 'dns', 'network', 'invalid'];
+
+let reportWrite = Promise.resolve();
+let scanRunning = false;
+
+const updateReport = (mutate) => {
+  reportWrite = reportWrite
+    .then(async () => {
+      const items = await chrome.storage.local.get(REPORT_KEY);
+      const report = items[REPORT_KEY] || { results: {} };
+      mutate(report);
+      await chrome.storage.local.set({ [REPORT_KEY]: report });
+    })
+    .catch((err) => console.error('Failed to update link report', err));
+  return reportWrite;
+};
+
+const updateBadge = async () => {
+  const items = await chrome.storage.local.get(REPORT_KEY);
+  const results = (items[REPORT_KEY] && items[REPORT_KEY].results) || {};
+  const dead = Object.values(results).filter((result) => DEAD_STATES.includes(result.state)).length;
+  await chrome.action.setBadgeBackgroundColor({ color: '#e11d48' });
+  await chrome.action.setBadgeText({ text: dead > 0 ? String(dead > 999 ? '999+' : dead) : '' });
+};
+
+const collectBookmarks = (nodes, result = []) => {
+  for (const node of nodes) {
+    if (node.url) result.push({ id: node.id, url: node.url });
+    if (node.children) collectBookmarks(node.children, result);
+  }
+  return result;
+};
+
+const runFullScan = async () => {
+  if (scanRunning) return;
+  scanRunning = true;
+  try {
+    const bookmarks = collectBookmarks(await chrome.bookmarks.getTree());
+    const liveIds = new Set(bookmarks.map((bookmark) => bookmark.id));
+    const startedAt = Date.now();
+    await updateReport((report) => {
+      // Forget results for bookmarks that no longer exist
+      for (const id of Object.keys(report.results)) {
+        if (!liveIds.has(id)) delete report.results[id];
+      }
+      report.scan = { done: 0, total: bookmarks.length, startedAt };
+    });
+
+    // Results are flushed in chunks; rewriting the report per link is too slow on big trees
+    let next = 0;
+    let done = 0;
+    let pending = {};
+    const flush = (extra) => {
+      const chunk = pending;
+      pending = {};
+      return updateReport((report) => {
+        Object.assign(report.results, chunk);
+        report.scan = { done, total: bookmarks.length, startedAt };
+        if (extra) extra(report);
+      });
+    };
+    const worker = async () => {
+      while (next < bookmarks.length) {
+        const bookmark = bookmarks[next++];
+        pending[bookmark.id] = await checkLink(bookmark.url);
+        done++;
+        if (done % SCAN_FLUSH_EVERY === 0) await flush();
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(SCAN_CONCURRENCY, bookmarks.length) }, worker));
+
+    await flush((report) => {
+      report.lastScanAt = Date.now();
+      report.scan = null;
+    });
+  } finally {
+    scanRunning = false;
+  }
+};
+
+// `scanRunning` does not survive the worker being stopped, so a `scan` left in
+// the report while no scan runs here belongs to a worker killed mid-scan.
+const clearStaleScan = () =>
+  updateReport((report) => {
+    if (!scanRunning && report.scan) report.scan = null;
+  });
+
+const scheduleScan = async () => {
+  const items = await chrome.storage.local.get(SETTINGS_KEY);
+  const settings = items[SETTINGS_KEY] || { intervalHours: DEFAULT_INTERVAL_HOURS };
+  await chrome.alarms.clear(SCAN_ALARM);
+  if (settings.intervalHours > 0) {
+    const periodInMinutes = settings.intervalHours * 60;
+    await chrome.alarms.create(SCAN_ALARM, { delayInMinutes: periodInMinutes, periodInMinutes });
+  }
+};
+
+chrome.runtime.onInstalled.addListener(() => {
+  scheduleScan();
+  updateBadge();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  clearStaleScan();
+  updateBadge();
+});
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name !== SCAN_ALARM) return;
+  await clearStaleScan();
+  runFullScan();
+});
+
+// Any worker start, not just a browser start, follows a possibly interrupted scan
+clearStaleScan();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local') return;
+  if (SETTINGS_KEY in changes) scheduleScan();
+  if (REPORT_KEY in changes) updateBadge();
+});
+
+// --- Tags & notes --------------------------------------------------------
+// Mirrors BookmarkMeta in src/utils/metadata.ts. The page parks the metadata of
+// removed bookmarks in its trash entry, so it is safe to drop here.
+
+const META_KEY = 'bookmarkMeta';
+
+let metaWrite = Promise.resolve();
+
+const forgetMetadata = (ids) => {
+  metaWrite = metaWrite
+    .then(async () => {
+      const items = await chrome.storage.local.get(META_KEY);
+      const all = items[META_KEY];
+      if (!all || !ids.some((id) => id in all)) return;
+      ids.forEach((id) => delete all[id]);
+      await chrome.storage.local.set({ [META_KEY]: all });
+    })
+    .catch((err) => console.error('Failed to clean up bookmark metadata', err));
+  return metaWrite;
+};
+
+chrome.bookmarks.onRemoved.addListener((_id, removeInfo) => {
+  const removedIds = [];
+  const walk = (node) => {
+    removedIds.push(node.id);
+    if (node.children) node.children.forEach(walk);
+  };
+  walk(removeInfo.node);
+  updateReport((report) => {
+    removedIds.forEach((id) => delete report.results[id]);
+  });
+  forgetMetadata(removedIds);
+});
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message && message.type === 'checkLink') {
+    checkLink(message.url, message.timeoutMs).then(async (result) => {
+      if (message.bookmarkId) {
+        await updateReport((report) => {
+          report.results[message.bookmarkId] = result;
+        });
+      }
+      sendResponse(result);
+    });
+    return true;
+  }
+  if (message && message.type === 'fetchPreview') {
+    fetchPreview(message.url).then(sendResponse);
+    return true;
+  }
+  if (message && message.type === 'fetchResource') {
+    fetchResource(message.url, message.as, message.maxBytes).then(sendResponse);
+    return true;
+  }
+  if (message && message.type === 'startLinkScan') {
+    runFullScan();
+    sendResponse({ started: true });
+    return false;
+  }
+  return false;
+});
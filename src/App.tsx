@@ -1,38 +1,233 @@
-import { useState, useEffect } from 'react';
-import { BookmarkList } from './components/BookmarkList';
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import type React from 'react';
+import { PaneView } from './components/PaneView';
+import { PaneTabBar } from './components/PaneTabBar';
+import { DuplicateFinder } from './components/DuplicateFinder';
+import { SnapshotManager } from './components/SnapshotManager';
+import { RulesManager } from './components/RulesManager';
+import { CompareBar } from './components/CompareBar';
+import { WorkspaceMenu } from './components/WorkspaceMenu';
+import { PreviewPanel } from './components/PreviewPanel';
+import type { PreviewMode } from './components/PreviewPanel';
+import { ArchiveManager } from './components/ArchiveManager';
+import { StatsDashboard } from './components/StatsDashboard';
 import { getTree } from './utils/bookmarkService';
-import { ExternalLink, Layout, Maximize2, Zap } from 'lucide-react';
+import { getJournalSnapshot, subscribeJournal } from './utils/journal';
+import { undo, redo } from './utils/history';
+import { purgeExpiredTrash } from './utils/trash';
+import { isPseudoFolderId } from './utils/pseudoFolders';
+import { findNode } from './utils/treeUtils';
+import { DEFAULT_PANE_SETTINGS, getWorkspaceState, saveNamedWorkspace, saveWorkspaceState } from './utils/workspace';
+import type { NamedWorkspace, PaneSettings, PaneWorkspace, PanelLayout, WorkspaceState } from './utils/workspace';
+import { closeTab, createPaneTabs, getActiveFolderId, goBack, goForward, navigateTab, openTab, pruneTabs, selectTab } from './utils/paneTabs';
+import type { PaneTabs } from './utils/paneTabs';
+import type { FolderComparison } from './utils/compare';
+import type { SearchRequest } from './utils/searchQuery';
+import { DEAD_LINKS_FOLDER_ID } from './utils/linkReport';
+import { Archive, BarChart3, Camera, CopyCheck, GitCompare, Wand2, Layout, Redo2, Undo2, Zap } from 'lucide-react';
 import { Panel, Group as PanelGroup, Separator as PanelResizeHandle } from 'react-resizable-panels';
 
+type ToolId = 'duplicates' | 'snapshots' | 'rules' | 'archives' | 'stats';
+type PaneSide = 'left' | 'right';
+
+const DEFAULT_MAIN_LAYOUT: PanelLayout = { panes: 60, preview: 40 };
+const DEFAULT_PANE_LAYOUT: PanelLayout = { left: 50, right: 50 };
+
+// Restores a saved workspace onto the current tree; folders that no longer exist fall back to the first top-level folders.
+const resolveWorkspace = async (saved: WorkspaceState | null): Promise<WorkspaceState | null> => {
+    const tree = await getTree();
+    if (!tree || tree.length === 0) return null;
+    const root = tree[0];
+    const children = root.children || [];
+    const defaultLeft = children[0]?.id ?? root.id;
+    const defaultRight = children[1]?.id ?? defaultLeft;
+    const exists = (id: string) => {
+        if (isPseudoFolderId(id)) return true;
+        const node = findNode(tree, id);
+        return !!node && !node.url;
+    };
+    const resolvePane = (pane: PaneWorkspace | undefined, defaultFolderId: string): PaneWorkspace => {
+        const savedTabs = pane?.tabs ?? (pane ? createPaneTabs(pane.folderId) : null);
+        const tabs = (savedTabs && pruneTabs(savedTabs, exists)) ?? createPaneTabs(defaultFolderId);
+        return { ...DEFAULT_PANE_SETTINGS, ...pane, folderId: getActiveFolderId(tabs), tabs };
+    };
+
+    return {
+        left: resolvePane(saved?.left, defaultLeft),
+        right: resolvePane(saved?.right, defaultRight),
+        mainLayout: saved?.mainLayout,
+        paneLayout: saved?.paneLayout,
+        previewUrl: saved?.previewUrl ?? null,
+    };
+};
+
+// A failed undo or redo leaves part of the step applied, so the user has to know
+const runHistoryStep = (step: () => Promise<void>) => {
+    step().catch(err => alert(err instanceof Error ? err.message : String(err)));
+};
+
 function App() {
-  const [leftFolderId, setLeftFolderId] = useState<string | null>(null);
-  const [rightFolderId, setRightFolderId] = useState<string | null>(null);
+  const [paneTabs, setPaneTabs] = useState<Record<PaneSide, PaneTabs> | null>(null);
+  // Pane that receives Alt+←/→
+  const [activeSide, setActiveSide] = useState<PaneSide>('left');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('auto');
+  const journal = useSyncExternalStore(subscribeJournal, getJournalSnapshot);
+  const [activeTool, setActiveTool] = useState<ToolId | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparison, setComparison] = useState<FolderComparison | null>(null);
+  const [paneSettings, setPaneSettings] = useState<{ left: PaneSettings; right: PaneSettings }>({ left: DEFAULT_PANE_SETTINGS, right: DEFAULT_PANE_SETTINGS });
+  const [mainLayout, setMainLayout] = useState<PanelLayout>(DEFAULT_MAIN_LAYOUT);
+  const [paneLayout, setPaneLayout] = useState<PanelLayout>(DEFAULT_PANE_LAYOUT);
+  const [activeWorkspace, setActiveWorkspace] = useState<string | null>(null);
+  // Bumped when a workspace is applied so panels and panes remount with its layout and settings
+  const [workspaceKey, setWorkspaceKey] = useState(0);
+  // Searches opened from the statistics dashboard, cleared once the pane has run them
+  const [searchRequests, setSearchRequests] = useState<Record<PaneSide, SearchRequest | null>>({ left: null, right: null });
+
+  const leftFolderId = paneTabs && getActiveFolderId(paneTabs.left);
+  const rightFolderId = paneTabs && getActiveFolderId(paneTabs.right);
+
+  const updateTabs = useCallback((side: PaneSide, update: (pane: PaneTabs) => PaneTabs) => {
+      setPaneTabs(prev => prev && { ...prev, [side]: update(prev[side]) });
+  }, []);
+
+  const navigateLeft = useCallback((folderId: string) => updateTabs('left', pane => navigateTab(pane, folderId)), [updateTabs]);
+  const navigateRight = useCallback((folderId: string) => updateTabs('right', pane => navigateTab(pane, folderId)), [updateTabs]);
+
+  const applyWorkspace = useCallback(async (saved: WorkspaceState | null) => {
+      const state = await resolveWorkspace(saved);
+      if (!state) return;
+      setPaneTabs({ left: state.left.tabs!, right: state.right.tabs! });
+      setPaneSettings({ left: state.left, right: state.right });
+      setMainLayout(state.mainLayout ?? DEFAULT_MAIN_LAYOUT);
+      setPaneLayout(state.paneLayout ?? DEFAULT_PANE_LAYOUT);
+      setPreviewUrl(state.previewUrl);
+      setWorkspaceKey(key => key + 1);
+  }, []);
+
   useEffect(() => {
     document.documentElement.classList.add('dark');
-    
-    const initFolders = async () => {
-        const tree = await getTree();
-        if (tree && tree.length > 0) {
-            const root = tree[0];
-            const children = root.children || [];
-            if (children.length > 0) {
-                setLeftFolderId(children[0].id);
-                if (children.length > 1) {
-                    setRightFolderId(children[1].id);
-                } else {
-                    setRightFolderId(children[0].id);
-                }
-            } else {
-                setLeftFolderId(root.id);
-                setRightFolderId(root.id);
-            }
+    getWorkspaceState().then(applyWorkspace);
+    purgeExpiredTrash();
+  }, [applyWorkspace]);
+
+  const workspace = useMemo<WorkspaceState | null>(() => {
+      if (!paneTabs) return null;
+      return {
+          left: { ...paneSettings.left, folderId: getActiveFolderId(paneTabs.left), tabs: paneTabs.left },
+          right: { ...paneSettings.right, folderId: getActiveFolderId(paneTabs.right), tabs: paneTabs.right },
+          mainLayout,
+          paneLayout,
+          previewUrl,
+      };
+  }, [paneTabs, paneSettings, mainLayout, paneLayout, previewUrl]);
+
+  // Typing in a search box changes the workspace on every key; write once things settle
+  useEffect(() => {
+      if (!workspace) return;
+      const timer = setTimeout(() => saveWorkspaceState(workspace), 500);
+      return () => clearTimeout(timer);
+  }, [workspace]);
+
+  const openArchive = useCallback((url: string) => {
+      setPreviewUrl(url);
+      setPreviewMode('archive');
+  }, []);
+
+  // Dashboard links open in the pane that was used last
+  const openFolderFromStats = (folderId: string) => {
+      updateTabs(activeSide, pane => navigateTab(pane, folderId));
+      setActiveTool(null);
+  };
+
+  const searchFromStats = (query: string, folderId?: string) => {
+      const currentId = paneTabs && getActiveFolderId(paneTabs[activeSide]);
+      // Pseudo-folders have no search box
+      const targetId = folderId ?? (currentId && !isPseudoFolderId(currentId) ? currentId : '0');
+      updateTabs(activeSide, pane => navigateTab(pane, targetId));
+      setSearchRequests(prev => ({ ...prev, [activeSide]: { query, allFolders: !folderId } }));
+      setActiveTool(null);
+  };
+
+  const handleLeftSearchHandled = useCallback(() => setSearchRequests(prev => ({ ...prev, left: null })), []);
+  const handleRightSearchHandled = useCallback(() => setSearchRequests(prev => ({ ...prev, right: null })), []);
+
+  const handleLeftSettings = useCallback((settings: PaneSettings) => setPaneSettings(prev => ({ ...prev, left: settings })), []);
+  const handleRightSettings = useCallback((settings: PaneSettings) => setPaneSettings(prev => ({ ...prev, right: settings })), []);
+
+  const handleSaveWorkspace = async (name: string) => {
+      if (!workspace) return;
+      const saved = await saveNamedWorkspace(name, workspace);
+      setActiveWorkspace(saved.name);
+  };
+
+  const handleSwitchWorkspace = (named: NamedWorkspace) => {
+      setActiveWorkspace(named.name);
+      applyWorkspace(named.state);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        const target = e.target as HTMLElement | null;
+        // Leave text fields to their native undo
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            runHistoryStep(undo);
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            runHistoryStep(redo);
         }
     };
-    initFolders();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+        const target = e.target as HTMLElement | null;
+        // Alt+arrows move by word in text fields on some platforms
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+        if (e.key === 'ArrowLeft') {
+            e.preventDefault();
+            updateTabs(activeSide, goBack);
+        } else if (e.key === 'ArrowRight') {
+            e.preventDefault();
+            updateTabs(activeSide, goForward);
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeSide, updateTabs]);
+
+  // Mouse buttons 3 and 4 are back/forward; without preventDefault they would navigate the extension page itself
+  const handlePaneMouseUp = (e: React.MouseEvent, side: PaneSide) => {
+      if (e.button === 3) {
+          e.preventDefault();
+          updateTabs(side, goBack);
+      } else if (e.button === 4) {
+          e.preventDefault();
+          updateTabs(side, goForward);
+      }
+  };
+
+  const renderTabBar = (side: PaneSide) => paneTabs && (
+      <PaneTabBar
+          pane={paneTabs[side]}
+          onSelect={(tabId) => updateTabs(side, pane => selectTab(pane, tabId))}
+          onClose={(tabId) => updateTabs(side, pane => closeTab(pane, tabId))}
+          onNewTab={() => updateTabs(side, pane => openTab(pane, getActiveFolderId(pane)))}
+          onBack={() => updateTabs(side, goBack)}
+          onForward={() => updateTabs(side, goForward)}
+      />
+  );
+
   if (!leftFolderId || !rightFolderId) {
       return (
         <div className="flex flex-col items-center justify-center h-screen bg-slate-950 text-slate-400 gap-4">
@@ -61,6 +256,70 @@ function App() {
         </div>
 
         <div className="flex-1" />
+
+        <div className="flex items-center gap-1">
+            <WorkspaceMenu activeName={activeWorkspace} onSave={handleSaveWorkspace} onSwitch={handleSwitchWorkspace} />
+            <div className="w-px h-5 bg-slate-800 mx-1" />
+            <button
+                onClick={() => setIsComparing(!isComparing)}
+                className={`p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors ${isComparing ? 'text-blue-500 bg-blue-500/10' : ''}`}
+                title="Compare Panes"
+            >
+                <GitCompare size={16} />
+            </button>
+            <button
+                onClick={() => setActiveTool('duplicates')}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                title="Find Duplicates"
+            >
+                <CopyCheck size={16} />
+            </button>
+            <button
+                onClick={() => setActiveTool('snapshots')}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                title="Snapshots"
+            >
+                <Camera size={16} />
+            </button>
+            <button
+                onClick={() => setActiveTool('rules')}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                title="Organize Rules"
+            >
+                <Wand2 size={16} />
+            </button>
+            <button
+                onClick={() => setActiveTool('stats')}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                title="Statistics"
+            >
+                <BarChart3 size={16} />
+            </button>
+            <button
+                onClick={() => setActiveTool('archives')}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                title="Offline Archives"
+            >
+                <Archive size={16} />
+            </button>
+            <div className="w-px h-5 bg-slate-800 mx-1" />
+            <button
+                onClick={() => runHistoryStep(undo)}
+                disabled={!journal.canUndo}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title={journal.undoLabel ? `Undo ${journal.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+            >
+                <Undo2 size={16} />
+            </button>
+            <button
+                onClick={() => runHistoryStep(redo)}
+                disabled={!journal.canRedo}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title={journal.redoLabel ? `Redo ${journal.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+            >
+                <Redo2 size={16} />
+            </button>
+        </div>
         
         <div className="hidden sm:flex items-center gap-2 text-slate-500 text-xs font-medium mr-4">
            <Zap size={14} className="text-amber-500" />
@@ -68,19 +327,41 @@ function App() {
         </div>
       </header>
 
+      {isComparing && (
+          <CompareBar
+              leftFolderId={leftFolderId}
+              rightFolderId={rightFolderId}
+              onComparison={setComparison}
+              onClose={() => setIsComparing(false)}
+          />
+      )}
+
       {/* Main Content with Resizable Panels */}
       <div className="flex-1 flex overflow-hidden">
-          <PanelGroup orientation="vertical">
-            <Panel defaultSize={60} minSize={20}>
-                <PanelGroup orientation="horizontal">
-                    <Panel defaultSize={50} minSize={20} className="p-2">
-                         <div className="h-full shadow-2xl shadow-black/50 rounded-xl overflow-hidden">
-                            <BookmarkList 
+          <PanelGroup key={workspaceKey} id="main" orientation="vertical" defaultLayout={mainLayout} onLayoutChanged={setMainLayout}>
+            <Panel id="panes" minSize={20}>
+                <PanelGroup id="pane-split" orientation="horizontal" defaultLayout={paneLayout} onLayoutChanged={setPaneLayout}>
+                    <Panel id="left" minSize={20} className="p-2">
+                        <div
+                            className="h-full flex flex-col shadow-2xl shadow-black/50 rounded-xl overflow-hidden"
+                            onMouseDownCapture={() => setActiveSide('left')}
+                            onMouseUp={(e) => handlePaneMouseUp(e, 'left')}
+                        >
+                            {renderTabBar('left')}
+                            <PaneView 
                                 title="Source Panel"
                                 folderId={leftFolderId} 
-                                onNavigate={setLeftFolderId}
+                                otherFolderId={rightFolderId}
+                                onNavigate={navigateLeft}
+                                onOpenTab={(id) => updateTabs('left', pane => openTab(pane, id, false))}
+                                initialSettings={paneSettings.left}
+                                onSettingsChange={handleLeftSettings}
+                                searchRequest={searchRequests.left}
+                                onSearchRequestHandled={handleLeftSearchHandled}
+                                compareMarks={comparison?.marks}
                                 onSelectUrl={setPreviewUrl}
-                                className="h-full border-none rounded-none"
+                                onOpenArchive={openArchive}
+                                className="flex-1 min-h-0 border-none rounded-none"
                                 selectedUrl={previewUrl}
                             />
                         </div>
@@ -90,14 +371,27 @@ function App() {
                         <div className="h-8 w-1 rounded-full bg-slate-700 group-hover:bg-blue-400 transition-colors" />
                     </PanelResizeHandle>
 
-                    <Panel defaultSize={50} minSize={20} className="p-2">
-                        <div className="h-full shadow-2xl shadow-black/50 rounded-xl overflow-hidden">
-                            <BookmarkList 
+                    <Panel id="right" minSize={20} className="p-2">
+                        <div
+                            className="h-full flex flex-col shadow-2xl shadow-black/50 rounded-xl overflow-hidden"
+                            onMouseDownCapture={() => setActiveSide('right')}
+                            onMouseUp={(e) => handlePaneMouseUp(e, 'right')}
+                        >
+                            {renderTabBar('right')}
+                            <PaneView 
                                 title="Destination Panel"
                                 folderId={rightFolderId} 
-                                onNavigate={setRightFolderId} 
+                                otherFolderId={leftFolderId}
+                                onNavigate={navigateRight}
+                                onOpenTab={(id) => updateTabs('right', pane => openTab(pane, id, false))}
+                                initialSettings={paneSettings.right}
+                                onSettingsChange={handleRightSettings}
+                                searchRequest={searchRequests.right}
+                                onSearchRequestHandled={handleRightSearchHandled}
+                                compareMarks={comparison?.marks}
                                 onSelectUrl={setPreviewUrl}
-                                className="h-full border-none rounded-none"
+                                onOpenArchive={openArchive}
+                                className="flex-1 min-h-0 border-none rounded-none"
                                 selectedUrl={previewUrl}
                             />
                         </div>
@@ -109,50 +403,34 @@ function App() {
                  <div className="w-8 h-1 rounded-full bg-slate-700 group-hover:bg-blue-400 transition-colors" />
             </PanelResizeHandle>
 
-            <Panel defaultSize={40} minSize={10} collapsible={true} collapsedSize={0}>
-                <div className="h-full bg-slate-900 border-t border-slate-800 shadow-[0_-4px_20px_rgba(0,0,0,0.4)] z-10 flex flex-col">
-                    <div className="flex items-center justify-between px-6 py-2 bg-slate-900 border-b border-slate-800 h-10 select-none flex-none">
-                        <div className="flex items-center gap-2 max-w-[70%]">
-                            <div className={`w-2 h-2 rounded-full ${previewUrl ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.6)]' : 'bg-slate-700'}`} />
-                            <span className="text-xs font-mono text-slate-400 truncate">
-                                {previewUrl || 'Waiting for selection...'}
-                            </span>
-                        </div>
-                        
-                        {previewUrl && (
-                            <a 
-                                href={previewUrl} 
-                                target="_blank" 
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-1.5 text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors px-2 py-1 hover:bg-blue-500/10 rounded-md"
-                            >
-                                <span>Open External</span>
-                                <ExternalLink size={12} />
-                            </a>
-                        )}
-                    </div>
-                    <div className="flex-1 relative bg-slate-950 flex flex-col min-h-0">
-                        {previewUrl ? (
-                            <div className="flex-1 relative w-full h-full bg-white">
-                                <iframe 
-                                    src={previewUrl} 
-                                    className="w-full h-full border-none" 
-                                    title="Preview"
-                                    sandbox="allow-scripts allow-same-origin allow-forms"
-                                    referrerPolicy="no-referrer"
-                                />
-                            </div>
-                        ) : (
-                            <div className="flex flex-col items-center justify-center h-full text-slate-600 gap-3">
-                                <Maximize2 size={40} className="opacity-20" />
-                                <span className="text-sm font-medium opacity-50">Select a bookmark to preview content</span>
-                            </div>
-                        )}
-                    </div>
-                </div>
+            <Panel id="preview" minSize={10} collapsible={true} collapsedSize={0}>
+                <PreviewPanel url={previewUrl} mode={previewMode} onModeChange={setPreviewMode} />
             </Panel>
           </PanelGroup>
       </div>
+
+      {activeTool === 'duplicates' && <DuplicateFinder onClose={() => setActiveTool(null)} />}
+      {activeTool === 'snapshots' && <SnapshotManager onClose={() => setActiveTool(null)} />}
+      {activeTool === 'archives' && (
+          <ArchiveManager
+              onClose={() => setActiveTool(null)}
+              onOpen={(url) => { openArchive(url); setActiveTool(null); }}
+          />
+      )}
+      {activeTool === 'stats' && (
+          <StatsDashboard
+              onClose={() => setActiveTool(null)}
+              onOpenFolder={openFolderFromStats}
+              onSearch={searchFromStats}
+              onOpenDeadLinks={() => openFolderFromStats(DEAD_LINKS_FOLDER_ID)}
+          />
+      )}
+      {activeTool === 'rules' && (
+          <RulesManager
+              onClose={() => setActiveTool(null)}
+              paneFolderIds={[leftFolderId, rightFolderId].filter(id => !isPseudoFolderId(id))}
+          />
+      )}
     </div>
   );
 }
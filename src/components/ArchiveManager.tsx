@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_ARCHIVE_SETTINGS,
+  deleteArchives,
+  formatBytes,
+  getArchiveSettings,
+  listArchives,
+  pruneArchives,
+  setArchiveSettings,
+  subscribeArchiveSettings,
+  subscribeArchives,
+} from '../utils/archive';
+import type { ArchiveMeta, ArchiveSettings } from '../utils/archive';
+import { Modal } from './Modal';
+import { Archive, CheckSquare, Eye, HardDrive, Loader2, Square, Trash2 } from 'lucide-react';
+
+interface ArchiveManagerProps {
+  onClose: () => void;
+  onOpen: (url: string) => void;
+}
+
+const PRUNE_OPTIONS = [30, 90, 180, 365];
+
+export const ArchiveManager: React.FC<ArchiveManagerProps> = ({ onClose, onOpen }) => {
+  const [archives, setArchives] = useState<ArchiveMeta[] | null>(null);
+  const [settings, setSettings] = useState<ArchiveSettings>(DEFAULT_ARCHIVE_SETTINGS);
+  const [usage, setUsage] = useState<StorageEstimate | null>(null);
+  const [pruneDays, setPruneDays] = useState(PRUNE_OPTIONS[1]);
+  const [isPruning, setIsPruning] = useState(false);
+
+  useEffect(() => {
+    const load = () => {
+        listArchives().then(setArchives);
+        navigator.storage?.estimate().then(setUsage);
+    };
+    load();
+    return subscribeArchives(load);
+  }, []);
+
+  useEffect(() => {
+    const load = () => getArchiveSettings().then(setSettings);
+    load();
+    return subscribeArchiveSettings(load);
+  }, []);
+
+  const totalSize = archives?.reduce((sum, archive) => sum + archive.size, 0) ?? 0;
+  const pruneCutoff = Date.now() - pruneDays * 24 * 60 * 60 * 1000;
+  const pruneCount = archives?.filter(archive => archive.capturedAt < pruneCutoff).length ?? 0;
+
+  const handlePrune = async () => {
+      if (pruneCount === 0 || !confirm(`Delete ${pruneCount} archives older than ${pruneDays} days?`)) return;
+      setIsPruning(true);
+      try {
+          await pruneArchives(pruneCutoff);
+      } finally {
+          setIsPruning(false);
+      }
+  };
+
+  const handleDelete = async (archive: ArchiveMeta) => {
+      if (confirm(`Delete the offline copy of "${archive.title || archive.url}"?`)) {
+          await deleteArchives([archive.bookmarkId]);
+      }
+  };
+
+  const toggleImages = () => {
+      const next = { ...settings, includeImages: !settings.includeImages };
+      setSettings(next);
+      setArchiveSettings(next);
+  };
+
+  return (
+    <Modal
+        title="Offline Archives"
+        icon={<Archive size={16} className="text-blue-500" />}
+        onClose={onClose}
+        footer={
+            <>
+                <button
+                    onClick={toggleImages}
+                    className="mr-auto flex items-center gap-2 px-2 py-1 text-xs text-slate-400 hover:text-blue-400 transition-colors"
+                    title="Images make archives complete but much larger"
+                >
+                    {settings.includeImages ? <CheckSquare size={14} className="text-blue-500" /> : <Square size={14} />}
+                    Include images in new archives
+                </button>
+                <select
+                    value={pruneDays}
+                    onChange={(e) => setPruneDays(Number(e.target.value))}
+                    className="bg-slate-950 text-xs text-slate-400 border border-slate-700 rounded-md px-2 py-1 outline-none focus:border-blue-500"
+                >
+                    {PRUNE_OPTIONS.map(days => (
+                        <option key={days} value={days}>Older than {days} days</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handlePrune}
+                    disabled={pruneCount === 0 || isPruning}
+                    className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold bg-rose-600 text-white rounded-md hover:bg-rose-500 shadow-lg shadow-rose-900/20 transition-all disabled:opacity-30"
+                >
+                    {isPruning ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                    Prune {pruneCount > 0 ? pruneCount : ''}
+                </button>
+            </>
+        }
+    >
+      <div className="p-3 space-y-3">
+        <div className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-950 border border-slate-800 text-xs text-slate-400">
+            <HardDrive size={16} className="text-slate-500 flex-shrink-0" />
+            <span>
+                {archives?.length ?? 0} archives · <span className="font-mono text-slate-300">{formatBytes(totalSize)}</span>
+            </span>
+            {usage?.usage !== undefined && usage.quota !== undefined && (
+                <div className="flex-1 flex items-center gap-2 justify-end">
+                    <div className="w-32 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }} />
+                    </div>
+                    <span className="font-mono text-[10px] text-slate-500">
+                        {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+                    </span>
+                </div>
+            )}
+        </div>
+
+        {!archives && (
+            <div className="flex items-center justify-center h-32 text-slate-500 gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                <span className="text-xs">Loading...</span>
+            </div>
+        )}
+        {archives?.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-32 text-slate-600 space-y-2">
+                <Archive size={32} className="opacity-20" />
+                <span className="text-xs font-medium">No archived pages yet</span>
+            </div>
+        )}
+
+        <div className="space-y-1">
+            {archives?.map(archive => (
+                <div key={archive.bookmarkId} className="group flex items-center gap-3 px-3 py-2 rounded-lg border border-transparent hover:bg-slate-800 hover:border-slate-700 transition-colors">
+                    <Archive size={16} className="text-slate-500 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                        <div className="text-sm text-slate-300 truncate">{archive.title || archive.url}</div>
+                        <div className="text-[10px] text-slate-500 font-mono truncate">
+                            {new Date(archive.capturedAt).toLocaleString()} · {formatBytes(archive.size)}
+                            {archive.includesImages ? ' · with images' : ''} · {archive.url}
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => onOpen(archive.url)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-md transition-colors"
+                    >
+                        <Eye size={12} /> Open
+                    </button>
+                    <button
+                        onClick={() => handleDelete(archive)}
+                        className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-slate-700 rounded-md transition-colors opacity-0 group-hover:opacity-100"
+                        title="Delete archive"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+            ))}
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,78 +1,140 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { getSubTree, checkLink, getBookmark, removeBookmark, updateBookmark, moveBookmark, searchBookmarks } from '../utils/bookmarkService';
+import React, { useEffect, useId, useMemo, useState, useRef, useSyncExternalStore } from 'react';
+import { removeBookmark, updateBookmark, createTree, createBookmark, copyBookmark } from '../utils/bookmarkService';
 import type { BookmarkNode } from '../utils/bookmarkService';
-import { Folder, FileText, ArrowLeft, CheckCircle2, XCircle, Loader2, Trash2, Edit2, Copy, CheckSquare, Square, ExternalLink, Search, X } from 'lucide-react';
+import { getBookmarkStoreSnapshot, getStoredChildren, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { runBatch } from '../utils/journal';
+import { TRASH_FOLDER_ID } from '../utils/trash';
+import { parseNetscapeBookmarks, serializeNetscapeBookmarks } from '../utils/netscape';
+import { downloadTextFile, toFileName } from '../utils/download';
+import { checkLinks } from '../utils/linkCheck';
+import type { LinkCheckResult } from '../utils/linkCheck';
+import { DEAD_LINKS_FOLDER_ID, getLinkReport, subscribeLinkReport } from '../utils/linkReport';
+import type { ParsedUrl } from '../utils/urlList';
+import { flattenTree } from '../utils/treeUtils';
+import { matchesQuery, parseSearchQuery } from '../utils/searchQuery';
+import type { SearchRequest } from '../utils/searchQuery';
+import { applySortOrder, DEFAULT_SORT_OPTIONS, sortNodes } from '../utils/sorting';
+import type { SortOptions } from '../utils/sorting';
+import type { CompareMark } from '../utils/compare';
+import type { PaneSettings } from '../utils/workspace';
+import { addTags, getAllMetadata, keepOriginalDates, parseTags, setNote, setTags, subscribeMetadata } from '../utils/metadata';
+import type { BookmarkMeta } from '../utils/metadata';
+import { canUseTabs, OPEN_TABS_FOLDER_ID, openFolderInWindow } from '../utils/openTabs';
+import { archiveBookmarks, canArchive, listArchives, subscribeArchives } from '../utils/archive';
+import type { ArchiveMeta, ArchiveProgress } from '../utils/archive';
+import { NewItemForm } from './NewItemForm';
+import { SortMenu } from './SortMenu';
+import { TagFilterMenu } from './TagFilterMenu';
+import { BulkTagForm } from './BulkTagForm';
+import { FindReplaceDialog } from './FindReplaceDialog';
+import { BookmarkRow } from './BookmarkRow';
+import type { DropSlot, LinkStatus } from './BookmarkRow';
+import { VirtualList } from './VirtualList';
+import { FolderTree } from './FolderTree';
+import { Breadcrumbs } from './Breadcrumbs';
+import type { NewItemMode } from './NewItemForm';
+import { allowDrop, clearDragPayload, dropIntoFolder, isCopyDrag, readDragPayload, setDragBadge, setDragPayload } from '../utils/dragDrop';
+import { Folder, ArrowLeft, CheckCircle2, Loader2, Trash, Trash2, CheckSquare, Square, Search, X, Download, Upload, ShieldAlert, FolderPlus, Plus, ClipboardPaste, MoreVertical, CopyPlus, PanelLeft, Globe, Tags, Archive, AppWindow, Replace } from 'lucide-react';
 
 interface BookmarkListProps {
   folderId: string;
   onNavigate: (id: string) => void;
+  onOpenTab?: (id: string) => void; // Middle-click on a folder opens it in a background tab
   onSelectUrl: (url: string) => void;
+  onOpenArchive?: (url: string) => void; // Shows the offline copy of a page in the preview
   className?: string;
   title?: string;
   selectedUrl?: string | null; // Added for highlighting selected bookmark
+  otherFolderId?: string; // Folder shown in the opposite pane, target of "Copy to other pane"
+  compareMarks?: Record<string, CompareMark>; // Set while the panes are being compared
+  initialSettings?: PaneSettings; // Sort and search restored from the workspace when the pane mounts
+  onSettingsChange?: (settings: PaneSettings) => void;
+  searchRequest?: SearchRequest | null; // Run once when set, then reported back through onSearchRequestHandled
+  onSearchRequestHandled?: () => void;
 }
 
-type LinkStatus = 'idle' | 'loading' | 'ok' | 'error';
 type ViewMode = 'folder' | 'search';
 
-export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate, onSelectUrl, className, title, selectedUrl }) => {
-  const [bookmarks, setBookmarks] = useState<BookmarkNode[]>([]); // Folder contents
-  const [searchResults, setSearchResults] = useState<BookmarkNode[]>([]); // Search results
-  const [viewMode, setViewMode] = useState<ViewMode>('folder');
-  const [searchQuery, setSearchQuery] = useState('');
+// A bookmark row with its URL line; taller rows are measured once rendered
+const ROW_HEIGHT_ESTIMATE = 64;
+// Rows moved by PageUp/PageDown
+const PAGE_ROWS = 10;
+
+const getNodeKey = (node: BookmarkNode) => node.id;
+
+const getViewMode = (query: string): ViewMode => (parseSearchQuery(query).terms.length > 0 ? 'search' : 'folder');
+
+export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate, onOpenTab, onSelectUrl, onOpenArchive, className, title, selectedUrl, otherFolderId, compareMarks, initialSettings, onSettingsChange, searchRequest, onSearchRequestHandled }) => {
+  const store = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  const bookmarks = getStoredChildren(store, folderId); // Folder contents
+  const currentFolder = folderId !== '0' ? store.nodes.get(folderId) ?? null : null;
+  // A search saved with the workspace is reopened
+  const [viewMode, setViewMode] = useState<ViewMode>(() => getViewMode(initialSettings?.searchQuery ?? ''));
+  const [searchQuery, setSearchQuery] = useState(initialSettings?.searchQuery ?? '');
+  const [searchAllFolders, setSearchAllFolders] = useState(initialSettings?.searchAllFolders ?? false);
+  const [sortOptions, setSortOptions] = useState<SortOptions>(initialSettings?.sort ?? DEFAULT_SORT_OPTIONS);
 
-  const [currentFolder, setCurrentFolder] = useState<BookmarkNode | null>(null);
   const [linkStatuses, setLinkStatuses] = useState<Record<string, LinkStatus>>({});
+  const [storedLinkResults, setStoredLinkResults] = useState<Record<string, LinkCheckResult>>({});
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [editUrl, setEditUrl] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const [editNote, setEditNote] = useState('');
+  const [metadata, setMetadata] = useState<Record<string, BookmarkMeta>>({});
+  const [isTagging, setIsTagging] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [archivesByUrl, setArchivesByUrl] = useState<Record<string, ArchiveMeta>>({});
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null);
   const [copiedLinkFeedbackId, setCopiedLinkFeedbackId] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(Boolean(initialSettings?.searchQuery));
+  const [newItemMode, setNewItemMode] = useState<NewItemMode | null>(null);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isTreeOpen, setIsTreeOpen] = useState(false);
+  // Keyboard cursor of the list; focus itself stays on the list so it survives rows being unmounted
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; slot: DropSlot } | null>(null);
+  const listId = useId();
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Load folder contents when folderId changes
+  // Start each folder in plain folder view; its contents come from the store.
+  // Reset while rendering so the old folder's search never shows for the new one.
+  const [shownFolderId, setShownFolderId] = useState(folderId);
+  if (shownFolderId !== folderId) {
+      setShownFolderId(folderId);
+      setViewMode('folder');
+      setSearchQuery('');
+      setIsSearchOpen(false);
+      setSelectedIds(new Set());
+      setFocusedId(null);
+      setNewItemMode(null);
+  }
+
+  // Results from earlier checks and the background scan
   useEffect(() => {
-    // If we were searching, should we stay in search mode or reset?
-    // Usually navigating changes the folder context.
-    // Let's reset search on navigation to be safe, or keep it if it's independent?
-    // Typically, if I change folder from outside (e.g. parent navigating), I expect to see that folder.
-    if (viewMode === 'search' && !isSearchOpen) {
-       // If search was closed but mode stuck (shouldn't happen), reset
-       setViewMode('folder');
-    }
-    // Note: We don't automatically clear search on folderId change if the user is explicitly searching.
-    // BUT, if the user clicked a folder IN the search results, onNavigate is called.
-    // In that case, we probably want to show the folder.
-    setViewMode('folder');
-    setSearchQuery('');
-    setIsSearchOpen(false);
-    
-    const handleRefresh = () => {
-        if (viewMode === 'folder') loadBookmarks();
-        // If search, maybe refresh search? skipping for now to keep simple
-    };
-
-    if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-        chrome.bookmarks.onCreated.addListener(handleRefresh);
-        chrome.bookmarks.onRemoved.addListener(handleRefresh);
-        chrome.bookmarks.onChanged.addListener(handleRefresh);
-        chrome.bookmarks.onMoved.addListener(handleRefresh);
-    }
-    return () => {
-        if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-            chrome.bookmarks.onCreated.removeListener(handleRefresh);
-            chrome.bookmarks.onRemoved.removeListener(handleRefresh);
-            chrome.bookmarks.onChanged.removeListener(handleRefresh);
-            chrome.bookmarks.onMoved.removeListener(handleRefresh);
-        }
-    }
-  }, [folderId]);
+      const loadReport = () => getLinkReport().then(report => setStoredLinkResults(report.results));
+      loadReport();
+      return subscribeLinkReport(loadReport);
+  }, []);
 
   useEffect(() => {
-    loadBookmarks();
-    setSelectedIds(new Set());
-  }, [folderId]);
+      const loadMetadata = () => getAllMetadata().then(setMetadata);
+      loadMetadata();
+      return subscribeMetadata(loadMetadata);
+  }, []);
+
+  // Keyed by URL: an archive stays useful when its bookmark is recreated, e.g. restored from the trash
+  useEffect(() => {
+      if (!canArchive()) return;
+      const loadArchives = () => listArchives()
+          .then(archives => setArchivesByUrl(Object.fromEntries(archives.reverse().map(archive => [archive.url, archive]))))
+          .catch(err => console.error('Failed to list archives:', err));
+      loadArchives();
+      return subscribeArchives(loadArchives);
+  }, []);
 
   useEffect(() => {
       if (isSearchOpen && searchInputRef.current) {
@@ -80,83 +142,118 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
       }
   }, [isSearchOpen]);
 
-  const loadBookmarks = async () => {
-    const nodes = await getSubTree(folderId);
-    setBookmarks(nodes);
-    
-    if (folderId !== '0') {
-         const folderNode = await getBookmark(folderId);
-         setCurrentFolder(folderNode);
-    } else {
-        setCurrentFolder(null);
-    }
-  };
-
-  const executeSearch = async (query: string) => {
+  const executeSearch = (query: string) => {
       setSearchQuery(query);
-      if (query.trim()) {
-          setViewMode('search');
-          const results = await searchBookmarks(query);
-          setSearchResults(results);
-      } else {
-          setViewMode('folder');
-          setSearchResults([]);
-      }
+      setViewMode(getViewMode(query));
   };
 
+  // Each request is run once, then reported back so the parent can clear it
+  const [handledSearchRequest, setHandledSearchRequest] = useState<SearchRequest | null>(null);
+  if (searchRequest && searchRequest !== handledSearchRequest) {
+      setHandledSearchRequest(searchRequest);
+      setIsSearchOpen(true);
+      setSearchAllFolders(searchRequest.allFolders);
+      executeSearch(searchRequest.query);
+  }
+
+  useEffect(() => {
+      if (searchRequest) onSearchRequestHandled?.();
+  }, [searchRequest, onSearchRequestHandled]);
+
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchErrors = parsedSearch.errors;
+
+  // Derived from the store, so results follow edits, moves and deletions while the search is open
+  const searchMatches = useMemo(() => {
+      if (viewMode !== 'search' || !store.roots) return [];
+      // Searches stay inside this pane's folder unless widened to the whole tree
+      const scope = !searchAllFolders && folderId !== '0' ? store.nodes.get(folderId) : undefined;
+      const scopeIds = scope ? new Set(flattenTree([scope]).map(item => item.node.id)) : null;
+      return flattenTree(store.roots).filter(item =>
+          item.depth > 0 &&
+          item.node.id !== folderId &&
+          (!scopeIds || scopeIds.has(item.node.id)) &&
+          matchesQuery(item, parsedSearch, { linkResults: storedLinkResults, metadata })
+      );
+  }, [viewMode, store, searchAllFolders, folderId, parsedSearch, storedLinkResults, metadata]);
+
+  const searchResults = useMemo(() => searchMatches.map(item => item.node), [searchMatches]);
+  const searchPaths = useMemo(
+      () => Object.fromEntries(searchMatches.map(item => [item.node.id, item.path])) as Record<string, string[]>,
+      [searchMatches],
+  );
+
+  useEffect(() => {
+      onSettingsChange?.({ sort: sortOptions, searchQuery, searchAllFolders });
+  }, [sortOptions, searchQuery, searchAllFolders, onSettingsChange]);
+
   const closeSearch = () => {
       setIsSearchOpen(false);
       setSearchQuery('');
       setViewMode('folder');
-      setSearchResults([]);
+  };
+
+  const toggleSearchScope = () => {
+      setSearchAllFolders(!searchAllFolders);
   };
 
   // Determine which list to show
-  const displayItems = viewMode === 'search' ? searchResults : bookmarks;
+  const displayItems = useMemo(
+      () => sortNodes(viewMode === 'search' ? searchResults : bookmarks, sortOptions),
+      [viewMode, searchResults, bookmarks, sortOptions],
+  );
+
+  // Counted once per listing instead of on every render of every folder row
+  const linkCounts = useMemo(() => {
+      const counts = new Map<string, number>();
+      for (const node of displayItems) {
+          if (!node.url && node.children) counts.set(node.id, node.children.reduce((sum, child) => sum + (child.url ? 1 : 0), 0));
+      }
+      return counts;
+  }, [displayItems]);
+
+  const focusedIndex = useMemo(
+      () => (focusedId ? displayItems.findIndex(node => node.id === focusedId) : -1),
+      [displayItems, focusedId],
+  );
+
+  const handleApplySort = async (recursive: boolean) => {
+      await applySortOrder(folderId, sortOptions, recursive);
+  };
 
   const handleCheckLinks = async () => {
-    const newStatuses = { ...linkStatuses };
-    const targets = selectedIds.size > 0 
+    const targets = (selectedIds.size > 0 
         ? displayItems.filter(b => selectedIds.has(b.id)) 
-        : displayItems;
+        : displayItems
+    ).filter((b): b is BookmarkNode & { url: string } => !!b.url);
 
-    targets.forEach(b => {
-      if (b.url) newStatuses[b.id] = 'loading';
+    setLinkStatuses(prev => {
+        const next = { ...prev };
+        targets.forEach(b => { next[b.id] = 'loading'; });
+        return next;
+    });
+
+    await checkLinks(targets, (id, result) => {
+        setLinkStatuses(prev => ({ ...prev, [id]: result }));
     });
-    setLinkStatuses(newStatuses);
-
-    await Promise.all(targets.map(async (b) => {
-      if (b.url) {
-        const result = await checkLink(b.url);
-        setLinkStatuses(prev => ({
-            ...prev,
-            [b.id]: result.ok ? 'ok' : 'error'
-        }));
-      }
-    }));
   };
 
   const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    if (confirm('Are you sure you want to delete this?')) {
-        await removeBookmark(id);
-        if (viewMode === 'search') {
-            // Refresh search results manually or wait for event?
-            // Event listener above calls loadBookmarks (folder). 
-            // Let's re-run search roughly.
-            executeSearch(searchQuery);
-        }
-    }
+    // Deleted items go to the trash, so no confirmation is needed here
+    await removeBookmark(id);
   };
 
   const handleBulkDelete = async () => {
       if (selectedIds.size === 0) return;
-      if (confirm(`Are you sure you want to delete ${selectedIds.size} items?`)) {
-          await Promise.all(Array.from(selectedIds).map(id => removeBookmark(id)));
+      if (confirm(`Move ${selectedIds.size} items to the trash?`)) {
+          // Sequential so every removal is journaled against the tree it actually saw
+          await runBatch(`Delete ${selectedIds.size} items`, async (batch) => {
+              for (const id of selectedIds) {
+                  await removeBookmark(id, batch);
+              }
+          });
           setSelectedIds(new Set());
-          if (viewMode === 'search') {
-              executeSearch(searchQuery);
-          }
       }
   };
 
@@ -165,54 +262,181 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
       setEditingId(node.id);
       setEditTitle(node.title);
       setEditUrl(node.url || '');
+      setEditTags((metadata[node.id]?.tags ?? []).join(', '));
+      setEditNote(metadata[node.id]?.note ?? '');
   };
 
   const saveEdit = async (e: React.FormEvent) => {
       e.preventDefault();
       if (editingId) {
-          await updateBookmark(editingId, { title: editTitle, url: editUrl || undefined });
+          const id = editingId;
+          await runBatch('Edit', async (batch) => {
+              await updateBookmark(id, { title: editTitle, url: editUrl || undefined }, batch);
+              await setTags(id, parseTags(editTags), batch);
+              await setNote(id, editNote, batch);
+          });
           setEditingId(null);
-          if (viewMode === 'search') {
-              executeSearch(searchQuery);
-          } else {
-              loadBookmarks();
+      }
+  };
+
+  const handleCreateFolder = async (folderTitle: string) => {
+      await createBookmark({ parentId: folderId, title: folderTitle });
+      setNewItemMode(null);
+  };
+
+  const handleCreateBookmarks = async (items: ParsedUrl[]) => {
+      await runBatch(items.length === 1 ? 'Add bookmark' : `Add ${items.length} bookmarks`, async (batch) => {
+          for (const item of items) {
+              await createBookmark({ parentId: folderId, title: item.title, url: item.url }, batch);
+          }
+      });
+      setNewItemMode(null);
+  };
+
+  const handleCopyToOtherPane = async () => {
+      if (!otherFolderId || selectedIds.size === 0) return;
+      // Keep the on-screen order of the selection
+      const ids = displayItems.filter(b => selectedIds.has(b.id)).map(b => b.id);
+      await runBatch(`Copy ${ids.length} items`, async (batch) => {
+          for (const id of ids) {
+              await copyBookmark(id, { parentId: otherFolderId }, batch);
+          }
+      });
+      setSelectedIds(new Set());
+  };
+
+  // Folders are archived with every bookmark below them
+  const handleArchive = async (ids: string[]) => {
+      if (archiveProgress && archiveProgress.done < archiveProgress.total) return;
+      const seen = new Set<string>();
+      const targets = ids.flatMap(id => {
+          const node = store.nodes.get(id);
+          return node ? flattenTree([node]).map(item => item.node) : [];
+      }).filter((node): node is BookmarkNode & { url: string } => {
+          if (!node.url || seen.has(node.id)) return false;
+          seen.add(node.id);
+          return true;
+      });
+      if (targets.length === 0) return;
+      setArchiveProgress({ done: 0, total: targets.length, failed: [] });
+      await archiveBookmarks(targets, setArchiveProgress);
+  };
+
+  const handleBulkTag = async (tags: string[]) => {
+      const ids = displayItems.filter(b => selectedIds.has(b.id)).map(b => b.id);
+      await runBatch(`Tag ${ids.length} items`, async (batch) => {
+          for (const id of ids) {
+              await addTags(id, tags, batch);
           }
+      });
+      setIsTagging(false);
+      setSelectedIds(new Set());
+  };
+
+  // Filtering by tag is a search for `tag:name`, so it follows the pane's search scope
+  const filterByTag = (tag: string | null) => {
+      if (!tag) {
+          closeSearch();
+          return;
       }
+      setIsSearchOpen(true);
+      executeSearch(`tag:${tag}`);
   };
 
+  const activeTag = /^tag:(\S+)$/.exec(searchQuery.trim())?.[1] ?? null;
+
+  const tagCounts = useMemo(() => {
+      const counts: Record<string, number> = {};
+      Object.values(metadata).forEach(meta => meta.tags.forEach(tag => { counts[tag] = (counts[tag] ?? 0) + 1; }));
+      return counts;
+  }, [metadata]);
+
+  // Grabbing a selected row drags the whole selection in on-screen order
+  const draggedIds = draggingId && selectedIds.has(draggingId) ? selectedIds : null;
+
   const handleDragStart = (e: React.DragEvent, node: BookmarkNode) => {
-      e.dataTransfer.setData('application/json', JSON.stringify({ id: node.id, parentId: node.parentId }));
-      e.dataTransfer.effectAllowed = 'move';
+      const dragged = selectedIds.has(node.id) ? displayItems.filter(b => selectedIds.has(b.id)) : [node];
+      setDragPayload(e, { items: dragged.map(b => ({ id: b.id, parentId: b.parentId })) });
+      if (dragged.length > 1) setDragBadge(e, `${dragged.length} items`);
+      setDraggingId(node.id);
+  };
+
+  const handleDragEnd = () => {
+      setDraggingId(null);
+      setDropTarget(null);
+      clearDragPayload();
+  };
+
+  // Rows can only be reordered where the list shows Chrome's own order
+  const canReorder = viewMode === 'folder' && sortOptions.mode === 'none';
+
+  const getDropSlot = (e: React.DragEvent, node: BookmarkNode): DropSlot | null => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const ratio = (e.clientY - rect.top) / rect.height;
+      if (!node.url && (!canReorder || (ratio > 0.25 && ratio < 0.75))) return 'inside';
+      if (!canReorder) return null;
+      return ratio < 0.5 ? 'before' : 'after';
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
+  const handleRowDragOver = (e: React.DragEvent, node: BookmarkNode) => {
+      const slot = getDropSlot(e, node);
+      // Other rows fall through to the list, which drops into the current folder
+      if (!slot) return;
+      e.stopPropagation();
+      const accepted = allowDrop(e, slot === 'inside' ? node.id : folderId);
+      setDropTarget(prev => {
+          if (!accepted) return null;
+          return prev?.id === node.id && prev.slot === slot ? prev : { id: node.id, slot };
+      });
+  };
+
+  const handleRowDrop = async (e: React.DragEvent, node: BookmarkNode) => {
+      const slot = getDropSlot(e, node);
+      if (!slot) return;
       e.preventDefault();
-      e.dataTransfer.dropEffect = 'move';
+      e.stopPropagation();
+      setDropTarget(null);
+      const payload = readDragPayload(e);
+      if (!payload) return;
+      if (slot === 'inside') {
+          await dropIntoFolder(payload, node.id, isCopyDrag(e));
+      } else {
+          const index = bookmarks.findIndex(b => b.id === node.id);
+          const beforeId = slot === 'before' ? node.id : bookmarks[index + 1]?.id ?? null;
+          await dropIntoFolder(payload, folderId, isCopyDrag(e), { beforeId });
+      }
   };
 
   const handleDrop = async (e: React.DragEvent, targetParentId: string) => {
       e.preventDefault();
+      setDropTarget(null);
       if (viewMode === 'search') return; // Don't allow drop on search results list root
 
-      const data = e.dataTransfer.getData('application/json');
-      if (data) {
-          const { id, parentId: sourceParentId } = JSON.parse(data);
-          if (id && sourceParentId !== targetParentId) {
-              await moveBookmark(id, { parentId: targetParentId });
-          }
+      const payload = readDragPayload(e);
+      if (payload) {
+          await dropIntoFolder(payload, targetParentId, isCopyDrag(e));
       }
   };
 
-  const handleDropOnFolder = async (e: React.DragEvent, folderId: string) => {
-    e.preventDefault();
-    e.stopPropagation();
-    const data = e.dataTransfer.getData('application/json');
-    if (data) {
-        const { id } = JSON.parse(data);
-        if (id && id !== folderId) {
-            await moveBookmark(id, { parentId: folderId });
-        }
-    }
+  const handleExport = () => {
+      const folderTitle = currentFolder?.title || title || 'Bookmarks';
+      const root: BookmarkNode = { ...(currentFolder || { id: folderId }), title: folderTitle, children: bookmarks };
+      downloadTextFile(`${toFileName(folderTitle)}.html`, serializeNetscapeBookmarks([root], metadata), 'text/html');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const children = parseNetscapeBookmarks(await file.text());
+          const folderTitle = file.name.replace(/\.html?$/i, '');
+          const created = await createTree({ id: 'import-root', title: folderTitle, children }, { parentId: folderId });
+          if (created) await keepOriginalDates(children, created.ids);
+      } catch (err) {
+          console.error('Failed to import bookmarks: ', err);
+          alert(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`);
+      }
   };
 
   const handleCopyLink = async (e: React.MouseEvent, url: string, id: string) => {
@@ -235,6 +459,54 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
       }
   };
 
+  const openNode = (node: BookmarkNode) => {
+      setFocusedId(node.id);
+      if (node.url) {
+          onSelectUrl(node.url);
+      } else {
+          onNavigate(node.id);
+      }
+  };
+
+  // Arrows move the cursor (Shift extends the selection), Space toggles selection and Enter opens
+  const handleListKeyDown = (e: React.KeyboardEvent) => {
+      // Leave keys typed into the forms inside the list alone
+      if (e.target !== e.currentTarget || displayItems.length === 0) return;
+      const last = displayItems.length - 1;
+      const moves: Record<string, number> = {
+          ArrowDown: focusedIndex + 1,
+          ArrowUp: focusedIndex === -1 ? 0 : focusedIndex - 1,
+          PageDown: focusedIndex + PAGE_ROWS,
+          PageUp: focusedIndex - PAGE_ROWS,
+          Home: 0,
+          End: last,
+      };
+      if (e.key in moves) {
+          e.preventDefault();
+          const next = displayItems[Math.max(0, Math.min(last, moves[e.key]))];
+          if (e.shiftKey) {
+              const newSet = new Set(selectedIds);
+              if (focusedIndex !== -1) newSet.add(displayItems[focusedIndex].id);
+              newSet.add(next.id);
+              setSelectedIds(newSet);
+          }
+          setFocusedId(next.id);
+      } else if (focusedIndex !== -1 && e.key === ' ') {
+          e.preventDefault();
+          const newSet = new Set(selectedIds);
+          const id = displayItems[focusedIndex].id;
+          if (newSet.has(id)) {
+              newSet.delete(id);
+          } else {
+              newSet.add(id);
+          }
+          setSelectedIds(newSet);
+      } else if (focusedIndex !== -1 && e.key === 'Enter') {
+          e.preventDefault();
+          openNode(displayItems[focusedIndex]);
+      }
+  };
+
   const toggleSelection = (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
       const newSet = new Set(selectedIds);
@@ -254,10 +526,13 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
       }
   };
 
+  const menuItemClassName = 'w-full flex items-center gap-2.5 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700 hover:text-blue-300 transition-colors text-left';
+
   return (
     <div 
         className={`flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-xl ${className} ${viewMode === 'search' ? 'ring-1 ring-blue-500/30' : ''}`}
-        onDragOver={handleDragOver}
+        onDragOver={(e) => { allowDrop(e, folderId); setDropTarget(null); }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null); }}
         onDrop={(e) => handleDrop(e, folderId)}
     >
       {/* List Header */}
@@ -286,13 +561,21 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
                         ref={searchInputRef}
                         type="text"
                         className="w-full bg-transparent text-sm text-slate-200 placeholder-slate-600 outline-none"
-                        placeholder="Search..."
+                        placeholder={searchAllFolders ? 'Search all folders...' : 'Search this folder...'}
+                        title={'title:  url:  site:example.com  in:"Folder"  added:>2024-01-01  is:folder  dead:true\n-term excludes, "quoted phrase", /regex/'}
                         value={searchQuery}
                         onChange={(e) => executeSearch(e.target.value)}
                         onKeyDown={(e) => {
                             if (e.key === 'Escape') closeSearch();
                         }}
                     />
+                    <button
+                        onClick={toggleSearchScope}
+                        className={`p-1 rounded-md ml-1 transition-colors ${searchAllFolders ? 'text-blue-400 bg-blue-500/10' : 'text-slate-500 hover:text-slate-300'}`}
+                        title={searchAllFolders ? 'Searching all folders' : 'Searching this folder and its subfolders'}
+                    >
+                        <Globe size={14} />
+                    </button>
                     <button onClick={closeSearch} className="text-slate-500 hover:text-slate-300 ml-1">
                         <X size={16} />
                     </button>
@@ -315,10 +598,12 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
                             {selectedIds.size > 0 ? `${selectedIds.size} Selected` : (title || currentFolder?.title || 'Root')}
                         </span>
                         {viewMode === 'folder' && currentFolder && selectedIds.size === 0 && (
-                            <span className="text-[10px] text-slate-500 font-mono truncate">/{currentFolder.title}</span>
+                            <Breadcrumbs folderId={folderId} onNavigate={onNavigate} />
                         )}
                          {viewMode === 'search' && (
-                             <span className="text-[10px] text-blue-400 font-mono truncate">Results: {displayItems.length}</span>
+                             <span className={`text-[10px] font-mono truncate ${searchErrors.length > 0 ? 'text-rose-400' : 'text-blue-400'}`}>
+                                 {searchErrors.length > 0 ? searchErrors.join(' · ') : `Results: ${displayItems.length}`}
+                             </span>
                          )}
                     </div>
                 </>
@@ -327,6 +612,13 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
         
         {/* Right Side: Actions */}
         <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+            <button
+                onClick={() => setIsTreeOpen(!isTreeOpen)}
+                className={`p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors ${isTreeOpen ? 'text-blue-500 bg-blue-500/10' : ''}`}
+                title={isTreeOpen ? 'Hide folder tree' : 'Show folder tree'}
+            >
+                <PanelLeft size={16} />
+            </button>
             {!isSearchOpen && (
                 <button 
                     onClick={() => setIsSearchOpen(true)}
@@ -337,6 +629,14 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
                 </button>
             )}
 
+            <TagFilterMenu tagCounts={tagCounts} activeTag={activeTag} onChange={filterByTag} />
+
+            <SortMenu
+                options={sortOptions}
+                onChange={setSortOptions}
+                onApply={viewMode === 'folder' && folderId !== '0' ? handleApplySort : undefined}
+            />
+
             {selectedIds.size > 0 && (
                 <button 
                     onClick={handleBulkDelete}
@@ -347,6 +647,55 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
                 </button>
             )}
 
+            {selectedIds.size > 0 && (
+                <button 
+                    onClick={() => setIsTagging(true)}
+                    className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Tag Selected"
+                >
+                    <Tags size={16} />
+                </button>
+            )}
+
+            {selectedIds.size > 0 && canArchive() && (
+                <button 
+                    onClick={() => handleArchive(displayItems.filter(b => selectedIds.has(b.id)).map(b => b.id))}
+                    className="p-1.5 text-slate-400 hover:text-amber-400 hover:bg-amber-500/10 rounded-lg transition-colors"
+                    title="Archive Selected for Offline Reading"
+                >
+                    <Archive size={16} />
+                </button>
+            )}
+
+            {selectedIds.size > 0 && otherFolderId && (
+                <button 
+                    onClick={handleCopyToOtherPane}
+                    className="p-1.5 text-slate-400 hover:text-cyan-400 hover:bg-cyan-500/10 rounded-lg transition-colors"
+                    title="Copy Selected to Other Pane"
+                >
+                    <CopyPlus size={16} />
+                </button>
+            )}
+
+            {viewMode === 'folder' && (
+                <>
+                    <button 
+                        onClick={() => setNewItemMode('folder')}
+                        className="p-1.5 text-slate-400 hover:text-amber-400 hover:bg-amber-500/10 rounded-lg transition-colors"
+                        title="New Folder"
+                    >
+                        <FolderPlus size={16} />
+                    </button>
+                    <button 
+                        onClick={() => setNewItemMode('bookmark')}
+                        className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                        title="Add Bookmark"
+                    >
+                        <Plus size={16} />
+                    </button>
+                </>
+            )}
+
             <button 
                 onClick={handleCheckLinks}
                 className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-emerald-500/10 rounded-lg transition-colors"
@@ -354,27 +703,77 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
             >
                 <CheckCircle2 size={16} />
             </button>
+
+            <div className="relative">
+                <button 
+                    onClick={() => setIsMenuOpen(open => !open)}
+                    className={`p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors ${isMenuOpen ? 'bg-slate-800 text-blue-400' : ''}`}
+                    title="More Actions"
+                >
+                    <MoreVertical size={16} />
+                </button>
+                <input ref={importInputRef} type="file" accept=".html,.htm,text/html" className="hidden" onChange={handleImport} />
+                {isMenuOpen && (
+                    <>
+                        <div className="fixed inset-0 z-20" onClick={() => setIsMenuOpen(false)} />
+                        <div className="absolute right-0 top-full mt-1 z-30 w-56 py-1 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl shadow-black/50 animate-in fade-in zoom-in-95 duration-100">
+                            <button
+                                onClick={() => { setIsMenuOpen(false); importInputRef.current?.click(); }}
+                                className={menuItemClassName}
+                            >
+                                <span className="text-slate-500"><Upload size={14} /></span>
+                                Import bookmarks.html...
+                            </button>
+                            {[
+                                { icon: <ClipboardPaste size={14} />, label: 'Paste URLs...', onClick: () => setNewItemMode('paste'), hidden: viewMode !== 'folder' },
+                                { icon: <Download size={14} />, label: 'Export folder as HTML', onClick: handleExport },
+                                { icon: <Replace size={14} />, label: 'Find and replace...', onClick: () => setIsReplacing(true) },
+                                { icon: <Archive size={14} />, label: 'Archive folder offline', onClick: () => handleArchive([folderId]), hidden: viewMode !== 'folder' || folderId === '0' || !canArchive() },
+                                { icon: <AppWindow size={14} />, label: 'Open folder as new window', onClick: () => openFolderInWindow(folderId), hidden: viewMode !== 'folder' || folderId === '0' },
+                                { icon: <AppWindow size={14} />, label: 'Open tabs', onClick: () => onNavigate(OPEN_TABS_FOLDER_ID), hidden: !canUseTabs() },
+                                { icon: <ShieldAlert size={14} />, label: 'Dead links report', onClick: () => onNavigate(DEAD_LINKS_FOLDER_ID) },
+                                { icon: <Trash size={14} />, label: 'Open trash', onClick: () => onNavigate(TRASH_FOLDER_ID) },
+                            ].filter(item => !item.hidden).map(item => (
+                                <button
+                                    key={item.label}
+                                    onClick={() => { setIsMenuOpen(false); item.onClick(); }}
+                                    className={menuItemClassName}
+                                >
+                                    <span className="text-slate-500">{item.icon}</span>
+                                    {item.label}
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
         </div>
       </div>
 
+      <div className="flex flex-1 min-h-0">
+      {isTreeOpen && (
+          <FolderTree currentFolderId={folderId} onNavigate={onNavigate} className="w-48 flex-shrink-0" />
+      )}
+
       {/* List Content */}
-      <div className="flex-1 overflow-y-auto p-2 space-y-1 bg-slate-900/50">
-        {displayItems.length === 0 && (
-            <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
-                {viewMode === 'search' ? (
-                     <Search size={32} className="opacity-20" />
-                ) : (
-                    <Folder size={32} className="opacity-20" />
-                )}
-                <span className="text-xs font-medium">
-                    {viewMode === 'search' ? 'No results' : 'Empty Folder'}
-                </span>
-            </div>
-        )}
-        
-        {displayItems.map((node) => (
-            editingId === node.id ? (
-                <form key={node.id} onSubmit={saveEdit} className="p-3 bg-slate-800 rounded-lg border border-blue-500/50 shadow-lg animate-in fade-in zoom-in-95 duration-200">
+      <VirtualList
+          items={displayItems}
+          getKey={getNodeKey}
+          estimateHeight={ROW_HEIGHT_ESTIMATE}
+          scrollToIndex={focusedIndex === -1 ? null : focusedIndex}
+          keepMountedKey={draggingId}
+          className="flex-1 overflow-y-auto p-2 bg-slate-900/50 outline-none group/list"
+          containerProps={{
+              tabIndex: 0,
+              role: 'listbox',
+              'aria-multiselectable': true,
+              'aria-activedescendant': focusedIndex === -1 ? undefined : `${listId}-${focusedId}`,
+              onKeyDown: handleListKeyDown,
+          }}
+          renderItem={(node) => (
+            <div className="pb-1">
+              {editingId === node.id ? (
+                <form onSubmit={saveEdit} className="p-3 bg-slate-800 rounded-lg border border-blue-500/50 shadow-lg animate-in fade-in zoom-in-95 duration-200">
                     <div className="space-y-2">
                         <input 
                             className="w-full p-2 text-sm bg-slate-950 text-slate-200 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
@@ -391,122 +790,124 @@ export const BookmarkList: React.FC<BookmarkListProps> = ({ folderId, onNavigate
                                 placeholder="https://..."
                             />
                         )}
+                        <input 
+                            className="w-full p-2 text-xs bg-slate-950 text-blue-300 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none font-mono"
+                            value={editTags} 
+                            onChange={e => setEditTags(e.target.value)} 
+                            placeholder="Tags, separated by commas"
+                        />
+                        <textarea 
+                            className="w-full p-2 text-xs bg-slate-950 text-slate-300 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-y h-14"
+                            value={editNote} 
+                            onChange={e => setEditNote(e.target.value)} 
+                            placeholder="Note"
+                        />
                     </div>
                     <div className="flex justify-end gap-2 mt-3">
                         <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 text-xs font-medium text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
                         <button type="submit" className="px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all">Save</button>
                     </div>
                 </form>
-            ) : (
-          <div 
-            key={node.id}
-            draggable
-            onDragStart={(e) => handleDragStart(e, node)}
-            onDragOver={handleDragOver}
-            onDrop={(e) => !node.url ? handleDropOnFolder(e, node.id) : undefined}
-            className={`group relative flex items-center gap-3 p-2.5 rounded-lg cursor-pointer transition-all duration-200 border 
-              ${selectedIds.has(node.id) 
-                  ? 'bg-blue-900/20 border-blue-500/30' 
-                  : (node.url && node.url === selectedUrl 
-                      ? 'bg-blue-700/30 border-blue-500/50' // Highlight if selected URL
-                      : 'hover:bg-slate-800 border-transparent hover:border-slate-700' // Default hover
-                  )
-              }`}
-            onClick={() => {
-              if (node.url) {
-                onSelectUrl(node.url);
-              } else {
-                onNavigate(node.id);
-              }
-            }}
-          >
-            {/* Checkbox */}
-            <div 
-                onClick={(e) => toggleSelection(e, node.id)}
-                className={`p-1 rounded hover:bg-slate-700/50 cursor-pointer ${selectedIds.has(node.id) ? 'text-blue-500' : 'text-slate-600 hover:text-slate-400'}`}
-            >
-                {selectedIds.has(node.id) ? <CheckSquare size={16} /> : <Square size={16} />}
+              ) : (
+                <BookmarkRow
+                    node={node}
+                    domId={`${listId}-${node.id}`}
+                    linkCount={linkCounts.get(node.id)}
+                    linkStatus={linkStatuses[node.id] ?? storedLinkResults[node.id]}
+                    meta={metadata[node.id]}
+                    compareMark={compareMarks?.[node.id]}
+                    archive={node.url ? archivesByUrl[node.url] : undefined}
+                    searchPath={viewMode === 'search' ? searchPaths[node.id] : undefined}
+                    isSelected={selectedIds.has(node.id)}
+                    isPreviewed={!!node.url && node.url === selectedUrl}
+                    isFocused={node.id === focusedId}
+                    isCopied={copiedLinkFeedbackId === node.id}
+                    isDragged={node.id === draggingId || !!draggedIds?.has(node.id)}
+                    dropSlot={dropTarget?.id === node.id ? dropTarget.slot : undefined}
+                    activeTag={activeTag}
+                    onOpen={openNode}
+                    onOpenTab={onOpenTab}
+                    onToggleSelection={toggleSelection}
+                    onFilterTag={filterByTag}
+                    onCopyLink={handleCopyLink}
+                    onOpenInNewTab={handleOpenInNewTab}
+                    onArchive={canArchive() ? (id) => handleArchive([id]) : undefined}
+                    onOpenArchive={onOpenArchive}
+                    onEdit={startEdit}
+                    onDelete={handleDelete}
+                    onDragStart={handleDragStart}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={handleRowDragOver}
+                    onDrop={handleRowDrop}
+                />
+              )}
             </div>
+          )}
+      >
+        <div className="space-y-1 pb-1 empty:hidden">
+            {newItemMode && (
+                <NewItemForm
+                    mode={newItemMode}
+                    onCreateFolder={handleCreateFolder}
+                    onCreateBookmarks={handleCreateBookmarks}
+                    onCancel={() => setNewItemMode(null)}
+                />
+            )}
 
-            {/* Icon */}
-            <div className={`p-2 rounded-lg ${!node.url ? 'bg-amber-500/10 text-amber-500' : 'bg-slate-700/30 text-slate-400 group-hover:text-blue-400 group-hover:bg-blue-500/10'} transition-colors duration-300`}>
-                {!node.url ? <Folder size={18} fill="currentColor" fillOpacity={0.2} /> : <FileText size={18} />}
-            </div>
-            
-            {/* Text */}
-            <div className="flex-1 min-w-0 flex flex-col justify-center">
-                <div className={`text-sm font-medium truncate ${!node.url ? 'text-amber-100/90' : 'text-slate-300 group-hover:text-blue-200'} transition-colors`}>
-                    {node.title}
-                    {/* Link count for folders */}
-                    {!node.url && node.children && (
-                        <span className="ml-2 text-xs font-mono text-slate-500 group-hover:text-slate-400">
-                            ({node.children.filter(child => child.url).length} links)
-                        </span>
+            {isTagging && selectedIds.size > 0 && (
+                <BulkTagForm
+                    count={selectedIds.size}
+                    onApply={handleBulkTag}
+                    onCancel={() => setIsTagging(false)}
+                />
+            )}
+
+            {archiveProgress && (
+                <div className="flex items-center gap-2 px-3 py-2 bg-slate-800 rounded-lg border border-amber-500/30 text-xs text-slate-300 animate-in fade-in duration-200">
+                    {archiveProgress.done < archiveProgress.total ? (
+                        <Loader2 size={14} className="animate-spin text-amber-400 flex-shrink-0" />
+                    ) : (
+                        <Archive size={14} className="text-amber-400 flex-shrink-0" />
                     )}
-                    {node.parentId && viewMode === 'search' && (
-                         <span className="ml-2 text-[10px] text-slate-600 border border-slate-700 px-1 rounded">in folder</span>
+                    <span className="flex-1 min-w-0 truncate" title={archiveProgress.failed.map(item => `${item.title}: ${item.error}`).join('\n') || undefined}>
+                        {archiveProgress.done < archiveProgress.total
+                            ? `Archiving ${archiveProgress.done} / ${archiveProgress.total}...`
+                            : `Archived ${archiveProgress.total - archiveProgress.failed.length} of ${archiveProgress.total} pages`}
+                        {archiveProgress.failed.length > 0 && (
+                            <span className="ml-2 text-rose-400">{archiveProgress.failed.length} failed</span>
+                        )}
+                    </span>
+                    {archiveProgress.done >= archiveProgress.total && (
+                        <button onClick={() => setArchiveProgress(null)} className="text-slate-500 hover:text-slate-300">
+                            <X size={14} />
+                        </button>
                     )}
                 </div>
-                {node.url && (
-                    <div className="text-[10px] truncate text-slate-500 group-hover:text-slate-400 font-mono opacity-80">
-                        {node.url.replace(/^https?:\/\/(www\.)?/, '')}
-                    </div>
-                )}
-            </div>
-            
-            {/* Status & Actions */}
-            <div className="flex items-center gap-2">
-                {node.url && (
-                    <div className="w-5 flex justify-center">
-                        {linkStatuses[node.id] === 'loading' && <Loader2 size={14} className="animate-spin text-blue-500" />}
-                        {linkStatuses[node.id] === 'ok' && <CheckCircle2 size={14} className="text-emerald-500 drop-shadow-[0_0_3px_rgba(16,185,129,0.5)]" />}
-                        {linkStatuses[node.id] === 'error' && <XCircle size={14} className="text-rose-500 drop-shadow-[0_0_3px_rgba(244,63,94,0.5)]" />}
-                    </div>
-                )}
+            )}
 
-                {/* Hover Actions */}
-                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-slate-800/80 rounded-lg p-0.5 border border-slate-700/50 backdrop-blur-sm absolute right-2 shadow-lg z-10">
-                    {node.url && (
-                        <>
-                            <button 
-                                onClick={(e) => handleCopyLink(e, node.url!, node.id)} 
-                                className="relative p-1.5 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 rounded-md transition-colors"
-                                title="Copy Link"
-                            >
-                                <Copy size={14} />
-                                {copiedLinkFeedbackId === node.id && (
-                                    <span className="absolute -top-6 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-xs px-2 py-0.5 rounded-full whitespace-nowrap animate-in fade-in-50">Copied!</span>
-                                )}
-                            </button>
-                            <button 
-                                onClick={(e) => handleOpenInNewTab(e, node.url!)}
-                                className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-slate-700 rounded-md transition-colors"
-                                title="Open in New Tab"
-                            >
-                                <ExternalLink size={14} />
-                            </button>
-                        </>
+            {displayItems.length === 0 && !newItemMode && (
+                <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                    {viewMode === 'search' ? (
+                         <Search size={32} className="opacity-20" />
+                    ) : (
+                        <Folder size={32} className="opacity-20" />
                     )}
-                    <button 
-                        onClick={(e) => startEdit(e, node)} 
-                        className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-md transition-colors"
-                        title="Edit"
-                    >
-                        <Edit2 size={14} />
-                    </button>
-                    <button 
-                        onClick={(e) => handleDelete(e, node.id)}
-                        className="p-1.5 text-slate-400 hover:text-rose-400 hover:bg-slate-700 rounded-md transition-colors"
-                        title="Delete"
-                    >
-                        <Trash2 size={14} />
-                    </button>
+                    <span className="text-xs font-medium">
+                        {viewMode === 'search' ? 'No results' : 'Empty Folder'}
+                    </span>
                 </div>
-            </div>
-          </div>
-            )
-        ))}
+            )}
+        </div>
+      </VirtualList>
       </div>
+
+      {isReplacing && (
+          <FindReplaceDialog
+              folderId={folderId}
+              selectedIds={displayItems.filter(b => selectedIds.has(b.id)).map(b => b.id)}
+              onClose={() => setIsReplacing(false)}
+          />
+      )}
     </div>
   );
 };
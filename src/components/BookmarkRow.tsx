@@ -0,0 +1,263 @@
+import React from 'react';
+import type { BookmarkNode } from '../utils/bookmarkService';
+import { describeLinkResult, isDeadLink } from '../utils/linkCheck';
+import type { LinkCheckResult } from '../utils/linkCheck';
+import type { CompareMark } from '../utils/compare';
+import type { BookmarkMeta } from '../utils/metadata';
+import type { ArchiveMeta } from '../utils/archive';
+import { formatPath } from '../utils/treeUtils';
+import { Archive, CheckCircle2, CheckSquare, Clock, Copy, CornerUpRight, Edit2, ExternalLink, FileText, Folder, HelpCircle, Loader2, Square, StickyNote, Trash2, XCircle } from 'lucide-react';
+
+export type LinkStatus = 'loading' | LinkCheckResult;
+
+// Where a drop over a row lands: next to it, or inside when the row is a folder
+export type DropSlot = 'before' | 'after' | 'inside';
+
+const COMPARE_BADGES: Partial<Record<CompareMark, { label: string; className: string }>> = {
+  'left-only': { label: 'only here', className: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' },
+  'right-only': { label: 'only here', className: 'text-violet-400 border-violet-500/30 bg-violet-500/10' },
+  'title-differs': { label: 'title differs', className: 'text-amber-400 border-amber-500/30 bg-amber-500/10' },
+  changed: { label: 'differs inside', className: 'text-blue-400 border-blue-500/30 bg-blue-500/10' },
+};
+
+const renderLinkStatus = (status: LinkStatus | undefined) => {
+  if (!status) return null;
+  if (status === 'loading') return <Loader2 size={14} className="animate-spin text-blue-500" />;
+  if (status.state === 'ok') return <CheckCircle2 size={14} className="text-emerald-500 drop-shadow-[0_0_3px_rgba(16,185,129,0.5)]" />;
+  if (status.state === 'redirected') return <CornerUpRight size={14} className="text-amber-400" />;
+  if (status.state === 'timeout') return <Clock size={14} className="text-rose-500 drop-shadow-[0_0_3px_rgba(244,63,94,0.5)]" />;
+  if (isDeadLink(status)) return <XCircle size={14} className="text-rose-500 drop-shadow-[0_0_3px_rgba(244,63,94,0.5)]" />;
+  return <HelpCircle size={14} className="text-slate-500" />;
+};
+
+const describeLinkStatus = (status: LinkStatus | undefined) => {
+  if (!status) return undefined;
+  return status === 'loading' ? 'Checking...' : describeLinkResult(status);
+};
+
+// Everything a row shows is looked up by the list beforehand, so a row costs the same in any folder size.
+interface BookmarkRowProps {
+  node: BookmarkNode;
+  domId: string; // Target of the list's aria-activedescendant
+  linkCount?: number; // Direct links of a folder
+  linkStatus?: LinkStatus;
+  meta?: BookmarkMeta;
+  compareMark?: CompareMark;
+  archive?: ArchiveMeta;
+  searchPath?: string[]; // Shown for search results
+  isSelected: boolean;
+  isPreviewed: boolean;
+  isFocused: boolean;
+  isCopied: boolean;
+  isDragged: boolean;
+  dropSlot?: DropSlot;
+  activeTag: string | null;
+  onOpen: (node: BookmarkNode) => void;
+  onOpenTab?: (id: string) => void;
+  onToggleSelection: (e: React.MouseEvent, id: string) => void;
+  onFilterTag: (tag: string) => void;
+  onCopyLink: (e: React.MouseEvent, url: string, id: string) => void;
+  onOpenInNewTab: (e: React.MouseEvent, url: string) => void;
+  onArchive?: (id: string) => void;
+  onOpenArchive?: (url: string) => void;
+  onEdit: (e: React.MouseEvent, node: BookmarkNode) => void;
+  onDelete: (e: React.MouseEvent, id: string) => void;
+  onDragStart: (e: React.DragEvent, node: BookmarkNode) => void;
+  onDragEnd: () => void;
+  onDragOver: (e: React.DragEvent, node: BookmarkNode) => void;
+  onDrop: (e: React.DragEvent, node: BookmarkNode) => void;
+}
+
+export const BookmarkRow: React.FC<BookmarkRowProps> = ({
+  node,
+  domId,
+  linkCount,
+  linkStatus,
+  meta,
+  compareMark,
+  archive,
+  searchPath,
+  isSelected,
+  isPreviewed,
+  isFocused,
+  isCopied,
+  isDragged,
+  dropSlot,
+  activeTag,
+  onOpen,
+  onOpenTab,
+  onToggleSelection,
+  onFilterTag,
+  onCopyLink,
+  onOpenInNewTab,
+  onArchive,
+  onOpenArchive,
+  onEdit,
+  onDelete,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+  onDrop,
+}) => {
+  const compareBadge = compareMark ? COMPARE_BADGES[compareMark] : undefined;
+
+  return (
+    <div 
+      id={domId}
+      role="option"
+      aria-selected={isSelected}
+      draggable
+      onDragStart={(e) => onDragStart(e, node)}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => onDragOver(e, node)}
+      onDrop={(e) => onDrop(e, node)}
+      className={`group relative flex items-center gap-3 p-2.5 rounded-lg cursor-pointer transition-all duration-200 border 
+        ${isFocused ? 'group-focus/list:ring-1 group-focus/list:ring-blue-400/60' : ''}
+        ${isDragged ? 'opacity-40' : ''}
+        ${dropSlot === 'inside' ? 'ring-1 ring-blue-400 bg-blue-500/10' : ''}
+        ${isSelected 
+            ? 'bg-blue-900/20 border-blue-500/30' 
+            : (isPreviewed 
+                ? 'bg-blue-700/30 border-blue-500/50' // Highlight if selected URL
+                : 'hover:bg-slate-800 border-transparent hover:border-slate-700' // Default hover
+            )
+        }`}
+      onClick={() => onOpen(node)}
+      onAuxClick={(e) => {
+        if (e.button === 1 && !node.url && onOpenTab) {
+          e.preventDefault();
+          onOpenTab(node.id);
+        }
+      }}
+    >
+      {/* Insertion line, drawn in the gap between rows */}
+      {(dropSlot === 'before' || dropSlot === 'after') && (
+          <div className={`absolute left-1 right-1 h-0.5 rounded-full bg-blue-400 pointer-events-none ${dropSlot === 'before' ? '-top-[3px]' : '-bottom-[3px]'}`} />
+      )}
+
+      {/* Checkbox */}
+      <div 
+          onClick={(e) => onToggleSelection(e, node.id)}
+          className={`p-1 rounded hover:bg-slate-700/50 cursor-pointer ${isSelected ? 'text-blue-500' : 'text-slate-600 hover:text-slate-400'}`}
+      >
+          {isSelected ? <CheckSquare size={16} /> : <Square size={16} />}
+      </div>
+
+      {/* Icon */}
+      <div className={`p-2 rounded-lg ${!node.url ? 'bg-amber-500/10 text-amber-500' : 'bg-slate-700/30 text-slate-400 group-hover:text-blue-400 group-hover:bg-blue-500/10'} transition-colors duration-300`}>
+          {!node.url ? <Folder size={18} fill="currentColor" fillOpacity={0.2} /> : <FileText size={18} />}
+      </div>
+      
+      {/* Text */}
+      <div className="flex-1 min-w-0 flex flex-col justify-center">
+          <div className={`text-sm font-medium truncate ${!node.url ? 'text-amber-100/90' : 'text-slate-300 group-hover:text-blue-200'} transition-colors`}>
+              {node.title}
+              {/* Link count for folders */}
+              {linkCount !== undefined && (
+                  <span className="ml-2 text-xs font-mono text-slate-500 group-hover:text-slate-400">
+                      ({linkCount} links)
+                  </span>
+              )}
+              {compareBadge && (
+                  <span className={`ml-2 text-[10px] font-mono border px-1 rounded ${compareBadge.className}`}>
+                      {compareBadge.label}
+                  </span>
+              )}
+              {meta?.tags.map(tag => (
+                  <button
+                      key={tag}
+                      onClick={(e) => { e.stopPropagation(); onFilterTag(tag); }}
+                      className={`ml-1.5 text-[10px] font-mono px-1 rounded border transition-colors ${tag === activeTag ? 'text-blue-200 border-blue-400/60 bg-blue-500/30' : 'text-blue-300 border-blue-500/20 bg-blue-500/10 hover:bg-blue-500/20'}`}
+                      title={`Show items tagged #${tag}`}
+                  >
+                      #{tag}
+                  </button>
+              ))}
+          </div>
+          {node.url && (
+              <div className="text-[10px] truncate text-slate-500 group-hover:text-slate-400 font-mono opacity-80">
+                  {node.url.replace(/^https?:\/\/(www\.)?/, '')}
+              </div>
+          )}
+          {meta?.note && (
+              <div className="flex items-center gap-1 text-[10px] truncate text-slate-400 italic" title={meta.note}>
+                  <StickyNote size={10} className="flex-shrink-0 text-amber-500/70" />
+                  <span className="truncate">{meta.note}</span>
+              </div>
+          )}
+          {searchPath && (
+              <div className="text-[10px] truncate text-slate-600 font-mono">{formatPath(searchPath)}</div>
+          )}
+      </div>
+      
+      {/* Status & Actions */}
+      <div className="flex items-center gap-2">
+          {node.url && archive && (
+              <button
+                  onClick={(e) => { e.stopPropagation(); onOpenArchive?.(node.url!); }}
+                  className="text-amber-400/80 hover:text-amber-300 transition-colors"
+                  title={`Offline copy from ${new Date(archive.capturedAt).toLocaleString()}`}
+              >
+                  <Archive size={14} />
+              </button>
+          )}
+          {node.url && (
+              <div
+                  className="w-5 flex justify-center"
+                  title={describeLinkStatus(linkStatus)}
+              >
+                  {renderLinkStatus(linkStatus)}
+              </div>
+          )}
+
+          {/* Hover Actions */}
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-slate-800/80 rounded-lg p-0.5 border border-slate-700/50 backdrop-blur-sm absolute right-2 shadow-lg z-10">
+              {node.url && (
+                  <>
+                      <button 
+                          onClick={(e) => onCopyLink(e, node.url!, node.id)} 
+                          className="relative p-1.5 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 rounded-md transition-colors"
+                          title="Copy Link"
+                      >
+                          <Copy size={14} />
+                          {isCopied && (
+                              <span className="absolute -top-6 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-xs px-2 py-0.5 rounded-full whitespace-nowrap animate-in fade-in-50">Copied!</span>
+                          )}
+                      </button>
+                      <button 
+                          onClick={(e) => onOpenInNewTab(e, node.url!)}
+                          className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-slate-700 rounded-md transition-colors"
+                          title="Open in New Tab"
+                      >
+                          <ExternalLink size={14} />
+                      </button>
+                  </>
+              )}
+              {onArchive && (
+                  <button 
+                      onClick={(e) => { e.stopPropagation(); onArchive(node.id); }}
+                      className="p-1.5 text-slate-400 hover:text-amber-400 hover:bg-slate-700 rounded-md transition-colors"
+                      title={node.url ? 'Archive for Offline Reading' : 'Archive Folder for Offline Reading'}
+                  >
+                      <Archive size={14} />
+                  </button>
+              )}
+              <button 
+                  onClick={(e) => onEdit(e, node)} 
+                  className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-md transition-colors"
+                  title="Edit"
+              >
+                  <Edit2 size={14} />
+              </button>
+              <button 
+                  onClick={(e) => onDelete(e, node.id)}
+                  className="p-1.5 text-slate-400 hover:text-rose-400 hover:bg-slate-700 rounded-md transition-colors"
+                  title="Delete"
+              >
+                  <Trash2 size={14} />
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
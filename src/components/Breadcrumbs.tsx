@@ -0,0 +1,48 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { getBookmarkStoreSnapshot, getStoredPath, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { allowDrop, dropIntoFolder, isCopyDrag, readDragPayload } from '../utils/dragDrop';
+import { ChevronRight } from 'lucide-react';
+
+interface BreadcrumbsProps {
+  folderId: string;
+  onNavigate: (id: string) => void;
+}
+
+export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ folderId, onNavigate }) => {
+  const store = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  // Renaming or moving an ancestor changes the path
+  const path = useMemo(() => getStoredPath(store, folderId), [store, folderId]);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const handleDrop = async (e: React.DragEvent, targetId: string) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTargetId(null);
+      const payload = readDragPayload(e);
+      if (payload) {
+          await dropIntoFolder(payload, targetId, isCopyDrag(e));
+      }
+  };
+
+  return (
+    <div className="flex items-center min-w-0 text-[10px] font-mono text-slate-500 overflow-hidden">
+        {path.map((node, i) => (
+            <React.Fragment key={node.id}>
+                {i > 0 && <ChevronRight size={10} className="flex-shrink-0 text-slate-700" />}
+                <button
+                    onClick={() => onNavigate(node.id)}
+                    onDragOver={(e) => { e.stopPropagation(); setDropTargetId(allowDrop(e, node.id) ? node.id : null); }}
+                    onDragLeave={() => setDropTargetId(prev => (prev === node.id ? null : prev))}
+                    onDrop={(e) => handleDrop(e, node.id)}
+                    className={`px-1 rounded truncate transition-colors
+                      ${dropTargetId === node.id ? 'bg-blue-500/30 text-blue-200' : ''}
+                      ${i === path.length - 1 ? 'text-slate-400 flex-shrink' : 'hover:text-blue-400 hover:bg-slate-800 flex-shrink-[2]'}`}
+                    title={node.title}
+                >
+                    {node.title || 'Untitled'}
+                </button>
+            </React.Fragment>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { parseTags } from '../utils/metadata';
+
+interface BulkTagFormProps {
+  count: number;
+  onApply: (tags: string[]) => void;
+  onCancel: () => void;
+}
+
+export const BulkTagForm: React.FC<BulkTagFormProps> = ({ count, onApply, onCancel }) => {
+  const [input, setInput] = useState('');
+  const tags = parseTags(input);
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (tags.length > 0) onApply(tags);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 bg-slate-800 rounded-lg border border-blue-500/50 shadow-lg animate-in fade-in zoom-in-95 duration-200">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-2">
+            Tag {count} selected {count === 1 ? 'item' : 'items'}
+        </div>
+        <input
+            className="w-full p-2 text-sm bg-slate-950 text-slate-200 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            placeholder="Tags, separated by commas or spaces"
+            autoFocus
+        />
+        <div className="flex flex-wrap gap-1 mt-2 min-h-[18px]">
+            {tags.map(tag => (
+                <span key={tag} className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-300 border border-blue-500/20">#{tag}</span>
+            ))}
+        </div>
+        <div className="flex justify-end gap-2 mt-3">
+            <button type="button" onClick={onCancel} className="px-3 py-1 text-xs font-medium text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
+            <button type="submit" disabled={tags.length === 0} className="px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-40">
+                Add tags
+            </button>
+        </div>
+    </form>
+  );
+};
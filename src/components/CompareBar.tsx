@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { BookmarkNode } from '../utils/bookmarkService';
+import { getBookmarkStoreSnapshot, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { compareFolders, countSyncChanges, syncFolders } from '../utils/compare';
+import type { FolderComparison, SyncDirection } from '../utils/compare';
+import { findNode } from '../utils/treeUtils';
+import { ArrowLeftRight, ArrowLeftToLine, ArrowRightToLine, GitCompare, Loader2, X } from 'lucide-react';
+
+interface CompareBarProps {
+  leftFolderId: string;
+  rightFolderId: string;
+  onComparison: (comparison: FolderComparison | null) => void;
+  onClose: () => void;
+}
+
+const SYNC_ACTIONS: { direction: SyncDirection; label: string; icon: React.ReactNode; confirm: string }[] = [
+  { direction: 'left-to-right', label: 'Mirror', icon: <ArrowRightToLine size={12} />, confirm: 'Make the right folder an exact copy of the left one?' },
+  { direction: 'merge', label: 'Merge', icon: <ArrowLeftRight size={12} />, confirm: 'Copy the missing items to both sides?' },
+  { direction: 'right-to-left', label: 'Mirror', icon: <ArrowLeftToLine size={12} />, confirm: 'Make the left folder an exact copy of the right one?' },
+];
+
+// Comparing a folder with one of its own subfolders would copy it into itself
+const contains = (ancestor: BookmarkNode, id: string) => findNode(ancestor.children || [], id) !== null;
+
+export const CompareBar: React.FC<CompareBarProps> = ({ leftFolderId, rightFolderId, onComparison, onClose }) => {
+  const store = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  const [recursive, setRecursive] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Rerun on every store update so the marks follow edits in either pane
+  const { comparison, problem } = useMemo((): { comparison: FolderComparison | null; problem: string | null } => {
+      if (!store.roots) return { comparison: null, problem: null };
+      const left = store.nodes.get(leftFolderId);
+      const right = store.nodes.get(rightFolderId);
+      if (!left || !right || left.url || right.url) {
+          return { comparison: null, problem: 'Open a bookmark folder in both panes to compare them' };
+      }
+      if (left.id === right.id || contains(left, right.id) || contains(right, left.id)) {
+          return { comparison: null, problem: 'One pane shows a folder inside the other' };
+      }
+      return { comparison: compareFolders(left, right, recursive), problem: null };
+  }, [store, leftFolderId, rightFolderId, recursive]);
+
+  useEffect(() => {
+    onComparison(comparison);
+  }, [comparison, onComparison]);
+
+  useEffect(() => () => onComparison(null), [onComparison]);
+
+  const handleSync = async (direction: SyncDirection, question: string) => {
+      if (!comparison || countSyncChanges(comparison, direction) === 0) return;
+      if (!confirm(`${question} (${countSyncChanges(comparison, direction)} changes)`)) return;
+      setIsSyncing(true);
+      try {
+          await syncFolders(comparison, direction);
+      } finally {
+          setIsSyncing(false);
+      }
+  };
+
+  return (
+    <div className="flex-none flex items-center gap-3 px-6 py-1.5 bg-slate-900/80 border-b border-slate-800 text-xs">
+        <GitCompare size={14} className="text-blue-500" />
+        <span className="font-bold text-slate-300">Compare</span>
+        <label className="flex items-center gap-1.5 text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={recursive} onChange={(e) => setRecursive(e.target.checked)} className="accent-blue-500" />
+            Include subfolders
+        </label>
+
+        {problem ? (
+            <span className="text-slate-500">{problem}</span>
+        ) : comparison && (
+            <div className="flex items-center gap-2 font-mono text-[11px]">
+                <span className="px-1.5 py-0.5 rounded border text-emerald-400 border-emerald-500/30 bg-emerald-500/10">left only {comparison.counts['left-only']}</span>
+                <span className="px-1.5 py-0.5 rounded border text-violet-400 border-violet-500/30 bg-violet-500/10">right only {comparison.counts['right-only']}</span>
+                <span className="px-1.5 py-0.5 rounded border text-amber-400 border-amber-500/30 bg-amber-500/10">title differs {comparison.counts['title-differs']}</span>
+            </div>
+        )}
+
+        <div className="flex-1" />
+
+        {comparison && SYNC_ACTIONS.map(action => (
+            <button
+                key={action.direction}
+                onClick={() => handleSync(action.direction, action.confirm)}
+                disabled={isSyncing || countSyncChanges(comparison, action.direction) === 0}
+                className="flex items-center gap-1 px-2 py-1 text-slate-300 border border-slate-700 rounded-md hover:bg-slate-800 hover:text-blue-300 transition-colors disabled:opacity-30"
+                title={action.confirm}
+            >
+                {action.direction === 'right-to-left' && action.icon}
+                {action.label}
+                {action.direction !== 'right-to-left' && action.icon}
+            </button>
+        ))}
+        {isSyncing && <Loader2 size={14} className="animate-spin text-blue-400" />}
+
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-300 hover:bg-slate-800 rounded-md transition-colors" title="Exit compare mode">
+            <X size={14} />
+        </button>
+    </div>
+  );
+};
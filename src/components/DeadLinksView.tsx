@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getTree, removeBookmark, updateBookmark } from '../utils/bookmarkService';
+import { flattenTree, formatPath } from '../utils/treeUtils';
+import type { FlatBookmark } from '../utils/treeUtils';
+import { checkLinks, describeLinkResult, isDeadLink } from '../utils/linkCheck';
+import {
+  getLinkReport,
+  getLinkScanSettings,
+  setLinkScanSettings,
+  startLinkScan,
+  subscribeLinkReport,
+} from '../utils/linkReport';
+import type { LinkReport } from '../utils/linkReport';
+import { runBatch } from '../utils/journal';
+import { ArrowLeft, CheckSquare, CornerUpRight, FolderOpen, Loader2, RefreshCw, ShieldAlert, Square, Trash2, Wand2 } from 'lucide-react';
+
+interface DeadLinksViewProps {
+  onBack: () => void;
+  onNavigate: (id: string) => void;
+  onSelectUrl: (url: string) => void;
+  className?: string;
+}
+
+type ReportFilter = 'dead' | 'redirected';
+
+const SCAN_INTERVALS = [
+  { hours: 0, label: 'Auto-scan off' },
+  { hours: 24, label: 'Scan daily' },
+  { hours: 24 * 7, label: 'Scan weekly' },
+];
+
+// A scan whose worker was shut down never reports completion
+const STALE_SCAN_MS = 60 * 60 * 1000;
+
+export const DeadLinksView: React.FC<DeadLinksViewProps> = ({ onBack, onNavigate, onSelectUrl, className }) => {
+  const [report, setReport] = useState<LinkReport>({ results: {} });
+  const [bookmarks, setBookmarks] = useState<FlatBookmark[]>([]);
+  const [filter, setFilter] = useState<ReportFilter>('dead');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [intervalHours, setIntervalHours] = useState(24);
+  const [isRechecking, setIsRechecking] = useState(false);
+
+  useEffect(() => {
+    const loadReport = () => getLinkReport().then(setReport);
+    loadReport();
+    getLinkScanSettings().then(settings => setIntervalHours(settings.intervalHours));
+    return subscribeLinkReport(loadReport);
+  }, []);
+
+  // Resolve titles and folder paths whenever the set of checked bookmarks changes
+  const resultCount = Object.keys(report.results).length;
+  useEffect(() => {
+    getTree().then(tree => setBookmarks(flattenTree(tree).filter(item => item.node.url)));
+  }, [resultCount]);
+
+  const items = useMemo(() => {
+      return bookmarks.filter(item => {
+          const result = report.results[item.node.id];
+          if (!result) return false;
+          return filter === 'dead' ? isDeadLink(result) : result.state === 'redirected';
+      });
+  }, [bookmarks, report, filter]);
+
+  const scan = report.scan && Date.now() - report.scan.startedAt < STALE_SCAN_MS ? report.scan : null;
+  const selectedItems = items.filter(item => selectedIds.has(item.node.id));
+
+  const handleIntervalChange = async (hours: number) => {
+      setIntervalHours(hours);
+      await setLinkScanSettings({ intervalHours: hours });
+  };
+
+  const handleRecheck = async () => {
+      const targets = (selectedItems.length > 0 ? selectedItems : items).map(item => ({ id: item.node.id, url: item.node.url! }));
+      setIsRechecking(true);
+      try {
+          await checkLinks(targets, () => {});
+      } finally {
+          setIsRechecking(false);
+      }
+  };
+
+  const handleDelete = async () => {
+      if (selectedItems.length === 0) return;
+      if (confirm(`Move ${selectedItems.length} items to the trash?`)) {
+          await runBatch(`Delete ${selectedItems.length} dead links`, async (batch) => {
+              for (const item of selectedItems) {
+                  await removeBookmark(item.node.id, batch);
+              }
+          });
+          setSelectedIds(new Set());
+      }
+  };
+
+  // Redirected bookmarks are fixed by pointing them at where they end up
+  const handleApplyRedirects = async () => {
+      const targets = (selectedItems.length > 0 ? selectedItems : items)
+          .filter(item => report.results[item.node.id]?.finalUrl);
+      if (targets.length === 0) return;
+      await runBatch(`Update ${targets.length} redirected links`, async (batch) => {
+          for (const item of targets) {
+              await updateBookmark(item.node.id, { url: report.results[item.node.id].finalUrl }, batch);
+          }
+      });
+      await checkLinks(targets.map(item => ({ id: item.node.id, url: report.results[item.node.id].finalUrl! })), () => {});
+      setSelectedIds(new Set());
+  };
+
+  const toggleSelection = (id: string) => {
+      const newSet = new Set(selectedIds);
+      if (newSet.has(id)) {
+          newSet.delete(id);
+      } else {
+          newSet.add(id);
+      }
+      setSelectedIds(newSet);
+  };
+
+  const toggleSelectAll = () => {
+      if (selectedItems.length === items.length && items.length > 0) {
+          setSelectedIds(new Set());
+      } else {
+          setSelectedIds(new Set(items.map(item => item.node.id)));
+      }
+  };
+
+  return (
+    <div className={`flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-xl ring-1 ring-rose-500/20 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 bg-slate-900 border-b border-slate-800/50 h-12">
+        <div className="flex items-center gap-2 overflow-hidden flex-1">
+            <button
+                onClick={toggleSelectAll}
+                className="text-slate-500 hover:text-blue-400 transition-colors flex-shrink-0"
+                title="Select All"
+            >
+                {items.length > 0 && selectedItems.length === items.length ? (
+                    <CheckSquare size={18} className="text-blue-500" />
+                ) : (
+                    <Square size={18} />
+                )}
+            </button>
+            <button
+                onClick={onBack}
+                className="p-1 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-blue-400 transition-all duration-200 flex-shrink-0"
+                title="Back to folders"
+            >
+                <ArrowLeft size={18} />
+            </button>
+            <div className="flex flex-col min-w-0">
+                <span className="font-bold text-sm truncate text-slate-200 tracking-wide">
+                    {selectedItems.length > 0 ? `${selectedItems.length} Selected` : 'Link Health'}
+                </span>
+                <span className="text-[10px] text-slate-500 font-mono truncate">
+                    {scan
+                        ? `Scanning ${scan.done}/${scan.total}...`
+                        : report.lastScanAt ? `Last full scan ${new Date(report.lastScanAt).toLocaleString()}` : 'Never fully scanned'}
+                </span>
+            </div>
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+            <select
+                value={filter}
+                onChange={(e) => { setFilter(e.target.value as ReportFilter); setSelectedIds(new Set()); }}
+                className="bg-slate-950 text-[11px] text-slate-400 border border-slate-700 rounded-md px-1.5 py-1 outline-none focus:border-blue-500"
+            >
+                <option value="dead">Dead links</option>
+                <option value="redirected">Redirected</option>
+            </select>
+            <select
+                value={intervalHours}
+                onChange={(e) => handleIntervalChange(Number(e.target.value))}
+                className="bg-slate-950 text-[11px] text-slate-400 border border-slate-700 rounded-md px-1.5 py-1 outline-none focus:border-blue-500"
+            >
+                {SCAN_INTERVALS.map(option => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+            </select>
+            <button
+                onClick={() => startLinkScan()}
+                disabled={!!scan}
+                className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-emerald-500/10 rounded-lg transition-colors disabled:opacity-30"
+                title="Scan all bookmarks now"
+            >
+                {scan ? <Loader2 size={16} className="animate-spin" /> : <ShieldAlert size={16} />}
+            </button>
+            <button
+                onClick={handleRecheck}
+                disabled={isRechecking || items.length === 0}
+                className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30"
+                title={selectedItems.length > 0 ? 'Re-check selected' : 'Re-check all listed'}
+            >
+                <RefreshCw size={16} className={isRechecking ? 'animate-spin' : ''} />
+            </button>
+            {filter === 'redirected' && (
+                <button
+                    onClick={handleApplyRedirects}
+                    disabled={items.length === 0}
+                    className="p-1.5 text-slate-400 hover:text-amber-400 hover:bg-amber-500/10 rounded-lg transition-colors disabled:opacity-30"
+                    title={selectedItems.length > 0 ? 'Update selected to their final URL' : 'Update all to their final URL'}
+                >
+                    <Wand2 size={16} />
+                </button>
+            )}
+            {selectedItems.length > 0 && (
+                <button
+                    onClick={handleDelete}
+                    className="p-1.5 text-rose-400 hover:text-rose-300 hover:bg-rose-500/20 rounded-lg transition-colors"
+                    title="Delete Selected"
+                >
+                    <Trash2 size={16} />
+                </button>
+            )}
+        </div>
+      </div>
+
+      {/* Failures */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 bg-slate-900/50">
+        {items.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                <ShieldAlert size={32} className="opacity-20" />
+                <span className="text-xs font-medium">{filter === 'dead' ? 'No dead links found' : 'No redirected links found'}</span>
+            </div>
+        )}
+
+        {items.map(item => {
+          const result = report.results[item.node.id];
+          return (
+            <div
+              key={item.node.id}
+              className={`group relative flex items-center gap-3 p-2.5 rounded-lg cursor-pointer transition-all duration-200 border
+                ${selectedIds.has(item.node.id) ? 'bg-blue-900/20 border-blue-500/30' : 'hover:bg-slate-800 border-transparent hover:border-slate-700'}`}
+              onClick={() => onSelectUrl(item.node.url!)}
+            >
+              <div
+                  onClick={(e) => { e.stopPropagation(); toggleSelection(item.node.id); }}
+                  className={`p-1 rounded hover:bg-slate-700/50 ${selectedIds.has(item.node.id) ? 'text-blue-500' : 'text-slate-600 hover:text-slate-400'}`}
+              >
+                  {selectedIds.has(item.node.id) ? <CheckSquare size={16} /> : <Square size={16} />}
+              </div>
+
+              <div className="flex-1 min-w-0 flex flex-col justify-center">
+                  <div className="text-sm font-medium truncate text-slate-300">{item.node.title || item.node.url}</div>
+                  <div className="text-[10px] truncate text-slate-500 font-mono">{item.node.url}</div>
+                  <div className="text-[10px] truncate text-slate-600 font-mono">{formatPath(item.path)}</div>
+              </div>
+
+              <span
+                  className={`flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border flex-shrink-0 max-w-[40%] truncate
+                    ${result.state === 'redirected' ? 'text-amber-400 border-amber-500/30' : 'text-rose-400 border-rose-500/30'}`}
+                  title={`${describeLinkResult(result)} · checked ${new Date(result.checkedAt).toLocaleString()}`}
+              >
+                  {result.state === 'redirected' && <CornerUpRight size={10} />}
+                  {describeLinkResult(result)}
+              </span>
+
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-slate-800/80 rounded-lg p-0.5 border border-slate-700/50 backdrop-blur-sm absolute right-2 shadow-lg z-10">
+                  {item.node.parentId && (
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onNavigate(item.node.parentId!); }}
+                          className="p-1.5 text-slate-400 hover:text-amber-400 hover:bg-slate-700 rounded-md transition-colors"
+                          title="Open containing folder"
+                      >
+                          <FolderOpen size={14} />
+                      </button>
+                  )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
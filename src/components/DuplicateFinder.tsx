@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { getTree, removeBookmark, updateBookmark } from '../utils/bookmarkService';
+import { findDuplicates } from '../utils/duplicates';
+import type { DuplicateGroup } from '../utils/duplicates';
+import { formatPath } from '../utils/treeUtils';
+import { stripTrackingParams } from '../utils/urlNormalize';
+import { runBatch } from '../utils/journal';
+import { Modal } from './Modal';
+import { CopyCheck, Folder, Loader2, RefreshCw } from 'lucide-react';
+
+interface DuplicateFinderProps {
+  onClose: () => void;
+}
+
+type ResolveMode = 'delete' | 'merge';
+
+// Merging keeps the chosen copy in place but gives it the most descriptive
+// title of the group and a URL without tracking parameters.
+const mergedFields = (group: DuplicateGroup, keepId: string) => {
+  const keeper = group.items.find(item => item.node.id === keepId)!.node;
+  const titles = group.items.map(item => item.node.title.trim()).filter(Boolean);
+  const title = titles.reduce((best, t) => (t.length > best.length ? t : best), keeper.title);
+  return { title, url: stripTrackingParams(keeper.url!) };
+};
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ onClose }) => {
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const scan = useCallback(async () => {
+      setGroups(null);
+      const found = findDuplicates(await getTree());
+      setGroups(found);
+      // Default to the oldest copy; groups are sorted by dateAdded
+      setKeepIds(Object.fromEntries(found.map(group => [group.key, group.items[0].node.id])));
+  }, []);
+
+  useEffect(() => {
+      scan();
+  }, [scan]);
+
+  const resolve = async (targets: DuplicateGroup[], mode: ResolveMode) => {
+      const removeCount = targets.reduce((sum, group) => sum + group.items.length - 1, 0);
+      if (removeCount === 0) return;
+      setIsApplying(true);
+      try {
+          await runBatch(`${mode === 'merge' ? 'Merge' : 'Remove'} ${removeCount} duplicates`, async (batch) => {
+              for (const group of targets) {
+                  const keepId = keepIds[group.key];
+                  if (mode === 'merge') {
+                      await updateBookmark(keepId, mergedFields(group, keepId), batch);
+                  }
+                  for (const item of group.items) {
+                      if (item.node.id !== keepId) {
+                          await removeBookmark(item.node.id, batch);
+                      }
+                  }
+              }
+          });
+      } finally {
+          setIsApplying(false);
+      }
+      await scan();
+  };
+
+  const duplicateCount = groups ? groups.reduce((sum, group) => sum + group.items.length - 1, 0) : 0;
+
+  return (
+    <Modal
+        title="Duplicate Bookmarks"
+        icon={<CopyCheck size={16} className="text-blue-500" />}
+        onClose={onClose}
+        footer={
+            <>
+                <span className="mr-auto text-xs text-slate-500">
+                    {groups ? `${groups.length} groups · ${duplicateCount} extra copies` : 'Scanning...'}
+                </span>
+                <button
+                    onClick={scan}
+                    disabled={isApplying}
+                    className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30"
+                    title="Rescan"
+                >
+                    <RefreshCw size={14} />
+                </button>
+                <button
+                    onClick={() => groups && resolve(groups, 'merge')}
+                    disabled={!groups?.length || isApplying}
+                    className="px-3 py-1 text-xs font-medium text-slate-300 border border-slate-700 rounded-md hover:bg-slate-800 transition-colors disabled:opacity-30"
+                    title="Keep the selected copy with the best title, remove the rest"
+                >
+                    Merge all
+                </button>
+                <button
+                    onClick={() => groups && resolve(groups, 'delete')}
+                    disabled={!groups?.length || isApplying}
+                    className="px-3 py-1 text-xs font-bold bg-rose-600 text-white rounded-md hover:bg-rose-500 shadow-lg shadow-rose-900/20 transition-all disabled:opacity-30"
+                >
+                    Remove all others
+                </button>
+            </>
+        }
+    >
+      <div className="p-3 space-y-3">
+        {groups === null && (
+            <div className="flex items-center justify-center h-40 text-slate-500 gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                <span className="text-xs">Scanning bookmarks...</span>
+            </div>
+        )}
+        {groups?.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                <CopyCheck size={32} className="opacity-20" />
+                <span className="text-xs font-medium">No duplicates found</span>
+            </div>
+        )}
+
+        {groups?.map(group => (
+            <div key={group.key} className="rounded-lg border border-slate-800 bg-slate-950/40">
+                <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-800">
+                    <span className="text-[11px] font-mono text-slate-400 truncate">{group.key}</span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                            onClick={() => resolve([group], 'merge')}
+                            disabled={isApplying}
+                            className="px-2 py-0.5 text-[11px] text-slate-400 hover:text-blue-300 hover:bg-slate-800 rounded transition-colors disabled:opacity-30"
+                        >
+                            Merge
+                        </button>
+                        <button
+                            onClick={() => resolve([group], 'delete')}
+                            disabled={isApplying}
+                            className="px-2 py-0.5 text-[11px] text-rose-400 hover:text-rose-300 hover:bg-rose-500/10 rounded transition-colors disabled:opacity-30"
+                        >
+                            Remove others
+                        </button>
+                    </div>
+                </div>
+                {group.items.map(item => (
+                    <label key={item.node.id} className="flex items-center gap-3 px-3 py-1.5 cursor-pointer hover:bg-slate-800/50">
+                        <input
+                            type="radio"
+                            name={`keep-${group.key}`}
+                            checked={keepIds[group.key] === item.node.id}
+                            onChange={() => setKeepIds(prev => ({ ...prev, [group.key]: item.node.id }))}
+                            className="accent-blue-500"
+                        />
+                        <div className="flex-1 min-w-0">
+                            <div className="text-sm text-slate-300 truncate">{item.node.title || item.node.url}</div>
+                            <div className="flex items-center gap-1 text-[10px] text-slate-500 font-mono truncate">
+                                <Folder size={10} className="flex-shrink-0 text-amber-500/60" />
+                                <span className="truncate">{formatPath(item.path)}</span>
+                            </div>
+                        </div>
+                        {item.node.dateAdded && (
+                            <span className="text-[10px] text-slate-600 font-mono flex-shrink-0">
+                                {new Date(item.node.dateAdded).toLocaleDateString()}
+                            </span>
+                        )}
+                    </label>
+                ))}
+            </div>
+        ))}
+      </div>
+    </Modal>
+  );
+};
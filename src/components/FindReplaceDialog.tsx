@@ -0,0 +1,255 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import type { BookmarkNode } from '../utils/bookmarkService';
+import { getBookmarkStoreSnapshot, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { applyReplace, compileFind, previewReplace } from '../utils/findReplace';
+import type { DiffPart, FindReplaceOptions } from '../utils/findReplace';
+import { flattenTree, formatPath } from '../utils/treeUtils';
+import { Modal } from './Modal';
+import { AlertTriangle, CaseSensitive, FileText, Folder, Loader2, Regex, Replace } from 'lucide-react';
+
+interface FindReplaceDialogProps {
+  // The pane's folder and its selected items, in on-screen order
+  folderId: string;
+  selectedIds: string[];
+  onClose: () => void;
+}
+
+type ReplaceScope = 'selection' | 'folder' | 'all';
+
+// Rows rendered in the preview; every change is still applied
+const PREVIEW_LIMIT = 300;
+
+const DiffText: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <>
+      {parts.map((part, i) => (part.type === 'same' ? (
+          <span key={i}>{part.text}</span>
+      ) : (
+          <React.Fragment key={i}>
+              {part.removed && <del className="bg-rose-500/20 text-rose-300">{part.removed}</del>}
+              {part.added && <ins className="bg-emerald-500/20 text-emerald-300 no-underline">{part.added}</ins>}
+          </React.Fragment>
+      )))}
+  </>
+);
+
+const Toggle: React.FC<{ active: boolean; onClick: () => void; title: string; children: React.ReactNode }> = ({ active, onClick, title, children }) => (
+  <button
+      type="button"
+      onClick={onClick}
+      className={`p-1.5 rounded-md border transition-colors ${active ? 'text-blue-300 border-blue-500/50 bg-blue-500/20' : 'text-slate-500 border-slate-700 hover:text-slate-300'}`}
+      title={title}
+  >
+      {children}
+  </button>
+);
+
+export const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({ folderId, selectedIds, onClose }) => {
+  const store = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  const [options, setOptions] = useState<FindReplaceOptions>({
+    find: '',
+    replace: '',
+    regex: false,
+    caseSensitive: false,
+    inTitles: true,
+    inUrls: true,
+  });
+  const [scope, setScope] = useState<ReplaceScope>(selectedIds.length > 0 ? 'selection' : 'folder');
+  const [recursive, setRecursive] = useState(false);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  const update = (changes: Partial<FindReplaceOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const allItems = useMemo(() => flattenTree(store.roots ?? []), [store.roots]);
+
+  const scopedItems = useMemo(() => {
+      if (scope === 'all') return allItems;
+      const ids = new Set<string>();
+      const add = (nodes: BookmarkNode[]) => {
+          const items = recursive ? flattenTree(nodes).map(item => item.node) : nodes;
+          items.forEach(node => ids.add(node.id));
+      };
+      if (scope === 'selection') {
+          for (const id of selectedIds) {
+              ids.add(id);
+              // Selected folders bring their contents when subfolders are included
+              if (recursive) add(store.nodes.get(id)?.children ?? []);
+          }
+      } else {
+          add(store.nodes.get(folderId)?.children ?? []);
+      }
+      return allItems.filter(item => ids.has(item.node.id));
+  }, [scope, recursive, selectedIds, folderId, store, allItems]);
+
+  const { pattern, error } = useMemo(() => compileFind(options), [options]);
+
+  const changes = useMemo(
+      () => (pattern ? previewReplace(scopedItems, pattern, options) : []),
+      [pattern, scopedItems, options],
+  );
+
+  const included = changes.filter(change => !excludedIds.has(change.node.id));
+  const applicable = included.filter(change => !change.invalidUrl);
+  const invalidCount = included.length - applicable.length;
+
+  const toggleExcluded = (id: string) => {
+      setExcludedIds(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) {
+              next.delete(id);
+          } else {
+              next.add(id);
+          }
+          return next;
+      });
+  };
+
+  const handleApply = async () => {
+      if (applicable.length === 0) return;
+      setIsApplying(true);
+      try {
+          await applyReplace(applicable);
+      } finally {
+          setIsApplying(false);
+      }
+      onClose();
+  };
+
+  const inputClassName = 'flex-1 min-w-0 p-2 text-sm bg-slate-950 text-slate-200 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none font-mono transition-all';
+
+  return (
+    <Modal
+        title="Find and Replace"
+        icon={<Replace size={16} className="text-blue-500" />}
+        onClose={onClose}
+        className="max-w-4xl"
+        footer={
+            <>
+                <span className="mr-auto text-xs text-slate-500">
+                    {error ? <span className="text-rose-400">{error}</span> : `${applicable.length} of ${scopedItems.length} items change`}
+                    {invalidCount > 0 && <span className="text-amber-400"> · {invalidCount} skipped (invalid URL)</span>}
+                </span>
+                <button onClick={onClose} className="px-3 py-1 text-xs font-medium text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
+                <button
+                    onClick={handleApply}
+                    disabled={applicable.length === 0 || isApplying}
+                    className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-30"
+                >
+                    {isApplying && <Loader2 size={12} className="animate-spin" />}
+                    Replace in {applicable.length} items
+                </button>
+            </>
+        }
+    >
+      <div className="p-4 space-y-3 border-b border-slate-800">
+        <div className="flex items-center gap-2">
+            <input
+                className={inputClassName}
+                value={options.find}
+                onChange={e => update({ find: e.target.value })}
+                placeholder={options.regex ? 'Find (regular expression)' : 'Find'}
+                autoFocus
+            />
+            <Toggle active={options.regex} onClick={() => update({ regex: !options.regex })} title="Regular expression">
+                <Regex size={14} />
+            </Toggle>
+            <Toggle active={options.caseSensitive} onClick={() => update({ caseSensitive: !options.caseSensitive })} title="Match case">
+                <CaseSensitive size={14} />
+            </Toggle>
+        </div>
+        <input
+            className={`w-full ${inputClassName}`}
+            value={options.replace}
+            onChange={e => update({ replace: e.target.value })}
+            placeholder={options.regex ? 'Replace with ($1, $<name> and $& refer to the match)' : 'Replace with'}
+        />
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+                <input type="checkbox" checked={options.inTitles} onChange={e => update({ inTitles: e.target.checked })} className="accent-blue-500" />
+                Titles
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+                <input type="checkbox" checked={options.inUrls} onChange={e => update({ inUrls: e.target.checked })} className="accent-blue-500" />
+                URLs
+            </label>
+            <span className="w-px h-4 bg-slate-800" />
+            <div className="flex rounded-md border border-slate-700 overflow-hidden">
+                {([
+                    { value: 'selection', label: `Selection (${selectedIds.length})`, disabled: selectedIds.length === 0 },
+                    { value: 'folder', label: 'This folder', disabled: false },
+                    { value: 'all', label: 'Whole tree', disabled: false },
+                ] as const).map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setScope(option.value)}
+                        disabled={option.disabled}
+                        className={`px-2 py-1 transition-colors disabled:opacity-30 ${scope === option.value ? 'bg-blue-600 text-white' : 'hover:bg-slate-800'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <label className={`flex items-center gap-1.5 cursor-pointer ${scope === 'all' ? 'opacity-30 pointer-events-none' : ''}`}>
+                <input type="checkbox" checked={recursive || scope === 'all'} onChange={e => setRecursive(e.target.checked)} className="accent-blue-500" />
+                Include subfolders
+            </label>
+        </div>
+      </div>
+
+      <div className="p-2 space-y-1">
+        {store.roots === null && (
+            <div className="flex items-center justify-center h-32 text-slate-500 gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                <span className="text-xs">Loading bookmarks...</span>
+            </div>
+        )}
+        {store.roots !== null && changes.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-32 text-slate-600 space-y-2">
+                <Replace size={32} className="opacity-20" />
+                <span className="text-xs font-medium">{options.find ? 'Nothing to replace' : 'Type something to find'}</span>
+            </div>
+        )}
+
+        {changes.slice(0, PREVIEW_LIMIT).map(change => (
+            <label
+                key={change.node.id}
+                className={`flex items-start gap-3 px-2 py-1.5 rounded-lg cursor-pointer hover:bg-slate-800/50 ${excludedIds.has(change.node.id) ? 'opacity-40' : ''}`}
+            >
+                <input
+                    type="checkbox"
+                    checked={!excludedIds.has(change.node.id)}
+                    onChange={() => toggleExcluded(change.node.id)}
+                    className="mt-1 accent-blue-500"
+                />
+                <span className="mt-0.5 text-slate-500">
+                    {change.node.url ? <FileText size={14} /> : <Folder size={14} className="text-amber-500/70" />}
+                </span>
+                <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="text-sm text-slate-300 break-words">
+                        {change.title ? <DiffText parts={change.title.parts} /> : change.node.title}
+                    </div>
+                    {change.url && (
+                        <div className="text-[11px] font-mono text-slate-500 break-all">
+                            <DiffText parts={change.url.parts} />
+                        </div>
+                    )}
+                    {change.invalidUrl && (
+                        <div className="flex items-center gap-1 text-[10px] text-amber-400">
+                            <AlertTriangle size={10} />
+                            The new URL is not valid; this item will be skipped
+                        </div>
+                    )}
+                    <div className="text-[10px] text-slate-600 font-mono truncate">{formatPath(change.path)}</div>
+                </div>
+            </label>
+        ))}
+        {changes.length > PREVIEW_LIMIT && (
+            <div className="px-2 py-1 text-[11px] text-slate-500">
+                …and {changes.length - PREVIEW_LIMIT} more items, which are replaced as well
+            </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
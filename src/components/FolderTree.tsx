@@ -0,0 +1,104 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import type { BookmarkNode } from '../utils/bookmarkService';
+import { getBookmarkStoreSnapshot, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { allowDrop, dropIntoFolder, isCopyDrag, readDragPayload } from '../utils/dragDrop';
+import { ChevronDown, ChevronRight, Folder, FolderOpen } from 'lucide-react';
+
+interface FolderTreeProps {
+  currentFolderId: string;
+  onNavigate: (id: string) => void;
+  className?: string;
+}
+
+// Ids of the folders leading to `targetId`, so the current folder is always visible.
+const findAncestors = (nodes: BookmarkNode[], targetId: string, trail: string[] = []): string[] | null => {
+  for (const node of nodes) {
+    if (node.id === targetId) return trail;
+    if (node.children) {
+      const found = findAncestors(node.children, targetId, [...trail, node.id]);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+export const FolderTree: React.FC<FolderTreeProps> = ({ currentFolderId, onNavigate, className }) => {
+  const store = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  // Skip the nameless root and show "Bookmarks Bar", "Other Bookmarks"... at the top level
+  const roots = store.roots?.[0]?.children || [];
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  // Reveal the current folder whenever the pane navigates somewhere new
+  const [revealedFolderId, setRevealedFolderId] = useState<string | null>(null);
+  if (revealedFolderId !== currentFolderId) {
+    const ancestors = findAncestors(roots, currentFolderId);
+    if (ancestors) {
+        setRevealedFolderId(currentFolderId);
+        setExpandedIds(prev => new Set([...prev, ...ancestors]));
+    }
+  }
+
+  const toggleExpanded = (e: React.MouseEvent, id: string) => {
+      e.stopPropagation();
+      setExpandedIds(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) {
+              next.delete(id);
+          } else {
+              next.add(id);
+          }
+          return next;
+      });
+  };
+
+  const handleDrop = async (e: React.DragEvent, folderId: string) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTargetId(null);
+      const payload = readDragPayload(e);
+      if (payload) {
+          await dropIntoFolder(payload, folderId, isCopyDrag(e));
+      }
+  };
+
+  const renderFolder = (node: BookmarkNode, depth: number): React.ReactNode => {
+      const subfolders = (node.children || []).filter(child => !child.url);
+      const isExpanded = expandedIds.has(node.id);
+      const isCurrent = node.id === currentFolderId;
+      return (
+        <div key={node.id}>
+            <div
+                onClick={() => onNavigate(node.id)}
+                onDragOver={(e) => { e.stopPropagation(); setDropTargetId(allowDrop(e, node.id) ? node.id : null); }}
+                onDragLeave={() => setDropTargetId(prev => (prev === node.id ? null : prev))}
+                onDrop={(e) => handleDrop(e, node.id)}
+                style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                className={`flex items-center gap-1 pr-2 py-1 rounded-md cursor-pointer text-xs transition-colors border
+                  ${dropTargetId === node.id
+                      ? 'bg-blue-500/20 border-blue-500/50'
+                      : isCurrent ? 'bg-slate-800 border-transparent text-amber-200' : 'border-transparent text-slate-400 hover:bg-slate-800/60 hover:text-slate-200'}`}
+                title={node.title}
+            >
+                <button
+                    onClick={(e) => toggleExpanded(e, node.id)}
+                    className={`p-0.5 rounded text-slate-600 hover:text-slate-300 ${subfolders.length === 0 ? 'invisible' : ''}`}
+                >
+                    {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                </button>
+                {isCurrent || isExpanded
+                    ? <FolderOpen size={14} className="flex-shrink-0 text-amber-500" />
+                    : <Folder size={14} className="flex-shrink-0 text-amber-500/70" />}
+                <span className="truncate">{node.title || 'Untitled'}</span>
+            </div>
+            {isExpanded && subfolders.map(child => renderFolder(child, depth + 1))}
+        </div>
+      );
+  };
+
+  return (
+    <div className={`overflow-y-auto py-2 px-1 bg-slate-950/40 border-r border-slate-800 ${className ?? ''}`}>
+        {roots.filter(root => !root.url).map(root => renderFolder(root, 0))}
+    </div>
+  );
+};
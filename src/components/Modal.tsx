@@ -0,0 +1,51 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+
+interface ModalProps {
+  title: string;
+  icon?: React.ReactNode;
+  onClose: () => void;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+  className?: string;
+}
+
+export const Modal: React.FC<ModalProps> = ({ title, icon, onClose, children, footer, className }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-6 animate-in fade-in duration-150"
+        onClick={onClose}
+    >
+      <div
+          className={`flex flex-col w-full max-w-3xl max-h-full bg-slate-900 border border-slate-800 rounded-xl shadow-2xl shadow-black/60 overflow-hidden ${className ?? ''}`}
+          onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800 flex-none">
+            <div className="flex items-center gap-2 text-slate-200">
+                {icon}
+                <h2 className="text-sm font-bold tracking-wide">{title}</h2>
+            </div>
+            <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-300 hover:bg-slate-800 rounded-md transition-colors" title="Close">
+                <X size={16} />
+            </button>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto">
+            {children}
+        </div>
+        {footer && (
+            <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-slate-800 bg-slate-900 flex-none">
+                {footer}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { parseUrlList } from '../utils/urlList';
+import type { ParsedUrl } from '../utils/urlList';
+
+export type NewItemMode = 'folder' | 'bookmark' | 'paste';
+
+interface NewItemFormProps {
+  mode: NewItemMode;
+  onCreateFolder: (title: string) => void;
+  onCreateBookmarks: (items: ParsedUrl[]) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full p-2 text-sm bg-slate-950 text-slate-200 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all';
+
+export const NewItemForm: React.FC<NewItemFormProps> = ({ mode, onCreateFolder, onCreateBookmarks, onCancel }) => {
+  const [title, setTitle] = useState('');
+  const [url, setUrl] = useState('');
+  const [pasted, setPasted] = useState('');
+
+  const parsed = mode === 'paste' ? parseUrlList(pasted) : [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (mode === 'folder') {
+          if (title.trim()) onCreateFolder(title.trim());
+      } else if (mode === 'bookmark') {
+          if (url.trim()) onCreateBookmarks([{ title: title.trim() || url.trim(), url: url.trim() }]);
+      } else if (parsed.length > 0) {
+          onCreateBookmarks(parsed);
+      }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 bg-slate-800 rounded-lg border border-blue-500/50 shadow-lg animate-in fade-in zoom-in-95 duration-200">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-2">
+            {mode === 'folder' ? 'New Folder' : mode === 'bookmark' ? 'New Bookmark' : 'Paste URLs'}
+        </div>
+        <div className="space-y-2">
+            {mode !== 'paste' && (
+                <input
+                    className={inputClassName}
+                    value={title}
+                    onChange={e => setTitle(e.target.value)}
+                    placeholder={mode === 'folder' ? 'Folder name' : 'Title (optional)'}
+                    autoFocus={mode === 'folder'}
+                />
+            )}
+            {mode === 'bookmark' && (
+                <input
+                    className={`${inputClassName} text-xs text-slate-400 font-mono`}
+                    value={url}
+                    onChange={e => setUrl(e.target.value)}
+                    placeholder="https://..."
+                    autoFocus
+                />
+            )}
+            {mode === 'paste' && (
+                <>
+                    <textarea
+                        className={`${inputClassName} text-xs font-mono h-32 resize-y`}
+                        value={pasted}
+                        onChange={e => setPasted(e.target.value)}
+                        placeholder={'One per line:\nhttps://example.com\nTitle<TAB>https://example.com\n[Title](https://example.com)'}
+                        autoFocus
+                    />
+                    <div className="text-[10px] text-slate-500">{parsed.length} URLs recognized</div>
+                </>
+            )}
+        </div>
+        <div className="flex justify-end gap-2 mt-3">
+            <button type="button" onClick={onCancel} className="px-3 py-1 text-xs font-medium text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
+            <button type="submit" className="px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all">
+                {mode === 'paste' ? `Add ${parsed.length}` : 'Create'}
+            </button>
+        </div>
+    </form>
+  );
+};
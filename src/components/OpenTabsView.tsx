@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { getBookmarkStoreSnapshot, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { flattenTree, formatPath } from '../utils/treeUtils';
+import type { FlatBookmark } from '../utils/treeUtils';
+import { canUseTabs, closeTabs, focusTab, getOpenWindows, isBookmarkableUrl, saveWindowToFolder, subscribeOpenTabs } from '../utils/openTabs';
+import type { OpenTab, OpenWindow } from '../utils/openTabs';
+import { setDragPayload } from '../utils/dragDrop';
+import { AppWindow, ArrowLeft, ArrowUpRight, BookmarkPlus, ChevronDown, ChevronRight, Globe, Pin, X } from 'lucide-react';
+
+interface OpenTabsViewProps {
+  onBack: () => void;
+  onSelectUrl: (url: string) => void;
+  // Preselected destination when saving a window, usually the other pane's folder
+  otherFolderId?: string;
+  className?: string;
+}
+
+const SaveWindowForm: React.FC<{
+  win: OpenWindow;
+  folders: FlatBookmark[];
+  defaultParentId?: string;
+  onSave: (parentId: string, title: string) => void;
+  onCancel: () => void;
+}> = ({ win, folders, defaultParentId, onSave, onCancel }) => {
+  const [title, setTitle] = useState(`Tabs ${new Date().toLocaleDateString()}`);
+  const [parentId, setParentId] = useState(
+    defaultParentId && folders.some(item => item.node.id === defaultParentId) ? defaultParentId : folders[0]?.node.id ?? '',
+  );
+  const count = win.tabs.filter(tab => isBookmarkableUrl(tab.url)).length;
+
+  return (
+    <form
+        onSubmit={(e) => { e.preventDefault(); if (title.trim() && parentId) onSave(parentId, title.trim()); }}
+        className="mx-1 mb-2 p-3 bg-slate-800 rounded-lg border border-blue-500/50 shadow-lg animate-in fade-in zoom-in-95 duration-200"
+    >
+        <div className="space-y-2">
+            <input
+                className="w-full p-2 text-sm bg-slate-950 text-slate-200 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                value={title}
+                onChange={e => setTitle(e.target.value)}
+                placeholder="Folder name"
+                autoFocus
+            />
+            <select
+                value={parentId}
+                onChange={e => setParentId(e.target.value)}
+                className="w-full p-2 text-xs bg-slate-950 text-slate-400 rounded-md border border-slate-700 focus:border-blue-500 outline-none"
+            >
+                {folders.map(item => (
+                    <option key={item.node.id} value={item.node.id}>{formatPath([...item.path, item.node.title])}</option>
+                ))}
+            </select>
+        </div>
+        <div className="flex justify-end gap-2 mt-3">
+            <button type="button" onClick={onCancel} className="px-3 py-1 text-xs font-medium text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
+            <button
+                type="submit"
+                disabled={!title.trim() || !parentId || count === 0}
+                className="px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-30"
+            >
+                Save {count} tabs
+            </button>
+        </div>
+    </form>
+  );
+};
+
+export const OpenTabsView: React.FC<OpenTabsViewProps> = ({ onBack, onSelectUrl, otherFolderId, className }) => {
+  const [windows, setWindows] = useState<OpenWindow[]>([]);
+  const { roots } = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  const [collapsedIds, setCollapsedIds] = useState<Set<number>>(new Set());
+  const [savingWindowId, setSavingWindowId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const load = () => getOpenWindows().then(setWindows);
+    load();
+    return subscribeOpenTabs(load);
+  }, []);
+
+  const folders = useMemo(
+    () => flattenTree(roots ?? []).filter(item => !item.node.url && item.depth > 0),
+    [roots],
+  );
+
+  const tabCount = useMemo(() => windows.reduce((sum, win) => sum + win.tabs.length, 0), [windows]);
+
+  const toggleCollapsed = (id: number) => {
+      const next = new Set(collapsedIds);
+      if (next.has(id)) {
+          next.delete(id);
+      } else {
+          next.add(id);
+      }
+      setCollapsedIds(next);
+  };
+
+  const handleSave = async (win: OpenWindow, parentId: string, title: string) => {
+      await saveWindowToFolder(win, parentId, title);
+      setSavingWindowId(null);
+  };
+
+  const handleDragStart = (e: React.DragEvent, tab: OpenTab) => {
+      setDragPayload(e, { tab: { title: tab.title, url: tab.url } });
+  };
+
+  return (
+    <div className={`flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-xl ring-1 ring-cyan-500/20 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 bg-slate-900 border-b border-slate-800/50 h-12">
+        <div className="flex items-center gap-2 overflow-hidden flex-1">
+            <button
+                onClick={onBack}
+                className="p-1 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-blue-400 transition-all duration-200 flex-shrink-0"
+                title="Back to folders"
+            >
+                <ArrowLeft size={18} />
+            </button>
+            <div className="flex flex-col min-w-0">
+                <span className="font-bold text-sm truncate text-slate-200 tracking-wide">Open Tabs</span>
+                <span className="text-[10px] text-cyan-400/80 font-mono truncate">
+                    {windows.length} windows · {tabCount} tabs · drag a tab onto a folder to bookmark it
+                </span>
+            </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 bg-slate-900/50">
+        {!canUseTabs() && (
+            <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                <AppWindow size={32} className="opacity-20" />
+                <span className="text-xs font-medium">Open tabs are only available inside the extension</span>
+            </div>
+        )}
+
+        {windows.map((win, index) => (
+            <div key={win.id}>
+                {/* Each window is shown like a folder */}
+                <div
+                    onClick={() => toggleCollapsed(win.id)}
+                    className="group relative flex items-center gap-3 p-2.5 rounded-lg cursor-pointer transition-all duration-200 border border-transparent hover:bg-slate-800 hover:border-slate-700"
+                >
+                    <span className="text-slate-500">
+                        {collapsedIds.has(win.id) ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                    </span>
+                    <div className="p-2 rounded-lg bg-cyan-500/10 text-cyan-400">
+                        <AppWindow size={18} />
+                    </div>
+                    <div className="flex-1 min-w-0 text-sm font-medium truncate text-cyan-100/90">
+                        Window {index + 1}
+                        <span className="ml-2 text-xs font-mono text-slate-500">({win.tabs.length} tabs)</span>
+                        {win.focused && (
+                            <span className="ml-2 text-[10px] font-mono border px-1 rounded text-emerald-400 border-emerald-500/30 bg-emerald-500/10">current</span>
+                        )}
+                        {win.incognito && (
+                            <span className="ml-2 text-[10px] font-mono border px-1 rounded text-violet-400 border-violet-500/30 bg-violet-500/10">incognito</span>
+                        )}
+                    </div>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setSavingWindowId(win.id); }}
+                        className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-md transition-colors opacity-0 group-hover:opacity-100"
+                        title="Save all tabs in this window to folder..."
+                    >
+                        <BookmarkPlus size={14} />
+                    </button>
+                </div>
+
+                {savingWindowId === win.id && (
+                    <SaveWindowForm
+                        win={win}
+                        folders={folders}
+                        defaultParentId={otherFolderId}
+                        onSave={(parentId, title) => handleSave(win, parentId, title)}
+                        onCancel={() => setSavingWindowId(null)}
+                    />
+                )}
+
+                {!collapsedIds.has(win.id) && win.tabs.map(tab => (
+                    <div
+                        key={tab.id}
+                        draggable={isBookmarkableUrl(tab.url)}
+                        onDragStart={(e) => handleDragStart(e, tab)}
+                        onClick={() => isBookmarkableUrl(tab.url) && onSelectUrl(tab.url)}
+                        onDoubleClick={() => focusTab(tab)}
+                        className="group relative flex items-center gap-3 ml-6 p-2 rounded-lg cursor-pointer transition-all duration-200 border border-transparent hover:bg-slate-800 hover:border-slate-700"
+                    >
+                        <div className="w-5 flex justify-center text-slate-500 flex-shrink-0">
+                            {tab.favIconUrl ? (
+                                <img src={tab.favIconUrl} alt="" className="w-4 h-4 rounded-sm" onError={(e) => { e.currentTarget.style.display = 'none'; }} />
+                            ) : (
+                                <Globe size={14} />
+                            )}
+                        </div>
+                        <div className="flex-1 min-w-0 flex flex-col justify-center">
+                            <div className={`text-sm truncate ${tab.active ? 'text-slate-100 font-medium' : 'text-slate-300'}`}>
+                                {tab.pinned && <Pin size={10} className="inline mr-1 text-slate-500" />}
+                                {tab.title}
+                            </div>
+                            <div className="text-[10px] truncate text-slate-500 font-mono opacity-80">
+                                {tab.url.replace(/^https?:\/\/(www\.)?/, '')}
+                            </div>
+                        </div>
+
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-slate-800/80 rounded-lg p-0.5 border border-slate-700/50 backdrop-blur-sm absolute right-2 shadow-lg z-10">
+                            <button
+                                onClick={(e) => { e.stopPropagation(); focusTab(tab); }}
+                                className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-slate-700 rounded-md transition-colors"
+                                title="Switch to Tab"
+                            >
+                                <ArrowUpRight size={14} />
+                            </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); closeTabs([tab.id]); }}
+                                className="p-1.5 text-slate-400 hover:text-rose-400 hover:bg-slate-700 rounded-md transition-colors"
+                                title="Close Tab"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { getBookmarkStoreSnapshot, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { TRASH_FOLDER_ID } from '../utils/trash';
+import { DEAD_LINKS_FOLDER_ID } from '../utils/linkReport';
+import { OPEN_TABS_FOLDER_ID } from '../utils/openTabs';
+import { isPseudoFolderId } from '../utils/pseudoFolders';
+import { canGoBack, canGoForward, getTabFolderId } from '../utils/paneTabs';
+import type { PaneTabs } from '../utils/paneTabs';
+import { allowDrop, dropIntoFolder, isCopyDrag, readDragPayload } from '../utils/dragDrop';
+import { AppWindow, ChevronLeft, ChevronRight, Folder, Plus, ShieldAlert, Trash, X } from 'lucide-react';
+
+interface PaneTabBarProps {
+  pane: PaneTabs;
+  onSelect: (tabId: string) => void;
+  onClose: (tabId: string) => void;
+  onNewTab: () => void;
+  onBack: () => void;
+  onForward: () => void;
+}
+
+const PSEUDO_TABS: Record<string, { title: string; icon: React.ReactNode }> = {
+  [TRASH_FOLDER_ID]: { title: 'Trash', icon: <Trash size={12} /> },
+  [DEAD_LINKS_FOLDER_ID]: { title: 'Link Health', icon: <ShieldAlert size={12} /> },
+  [OPEN_TABS_FOLDER_ID]: { title: 'Open Tabs', icon: <AppWindow size={12} /> },
+};
+
+export const PaneTabBar: React.FC<PaneTabBarProps> = ({ pane, onSelect, onClose, onNewTab, onBack, onForward }) => {
+  const store = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  const [dropTabId, setDropTabId] = useState<string | null>(null);
+
+  const describe = (folderId: string) => {
+      if (PSEUDO_TABS[folderId]) return PSEUDO_TABS[folderId];
+      const node = store.nodes.get(folderId);
+      return { title: node ? node.title || 'Bookmarks' : '…', icon: <Folder size={12} /> };
+  };
+
+  const handleDrop = async (e: React.DragEvent, folderId: string) => {
+      e.preventDefault();
+      setDropTabId(null);
+      const payload = readDragPayload(e);
+      if (payload) {
+          await dropIntoFolder(payload, folderId, isCopyDrag(e));
+      }
+  };
+
+  return (
+    <div className="flex items-center gap-0.5 px-1 h-8 bg-slate-950 border-b border-slate-800 select-none">
+        <button
+            onClick={onBack}
+            disabled={!canGoBack(pane)}
+            className="p-1 rounded-md text-slate-500 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Back (Alt+←)"
+        >
+            <ChevronLeft size={14} />
+        </button>
+        <button
+            onClick={onForward}
+            disabled={!canGoForward(pane)}
+            className="p-1 rounded-md text-slate-500 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Forward (Alt+→)"
+        >
+            <ChevronRight size={14} />
+        </button>
+
+        <div className="flex items-end gap-0.5 min-w-0 flex-1 h-full overflow-x-auto">
+            {pane.tabs.map(tab => {
+                const folderId = getTabFolderId(tab);
+                const { title, icon } = describe(folderId);
+                const isActive = tab.id === pane.activeTabId;
+                const acceptsDrop = !isPseudoFolderId(folderId);
+                return (
+                    <div
+                        key={tab.id}
+                        onClick={() => onSelect(tab.id)}
+                        // Middle click closes, like browser tabs
+                        onAuxClick={(e) => { if (e.button === 1) onClose(tab.id); }}
+                        onDragOver={acceptsDrop ? (e) => setDropTabId(allowDrop(e, folderId) ? tab.id : null) : undefined}
+                        onDragLeave={() => setDropTabId(null)}
+                        onDrop={acceptsDrop ? (e) => handleDrop(e, folderId) : undefined}
+                        className={`group flex items-center gap-1.5 max-w-40 h-7 pl-2.5 pr-1 rounded-t-md border border-b-0 text-xs cursor-pointer transition-colors
+                            ${dropTabId === tab.id
+                                ? 'bg-blue-600/20 border-blue-500/50 text-blue-200'
+                                : isActive
+                                    ? 'bg-slate-900 border-slate-800 text-slate-200'
+                                    : 'border-transparent text-slate-500 hover:bg-slate-900/60 hover:text-slate-300'}`}
+                        title={title}
+                    >
+                        <span className={isActive ? 'text-amber-500' : ''}>{icon}</span>
+                        <span className="truncate">{title}</span>
+                        {pane.tabs.length > 1 && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onClose(tab.id); }}
+                                className={`p-0.5 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-700 transition-all ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                title="Close tab"
+                            >
+                                <X size={11} />
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+            <button
+                onClick={onNewTab}
+                className="self-center p-1 rounded-md text-slate-500 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                title="New tab"
+            >
+                <Plus size={14} />
+            </button>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from 'react';
+import { BookmarkList } from './BookmarkList';
+import { TrashView } from './TrashView';
+import { DeadLinksView } from './DeadLinksView';
+import { OpenTabsView } from './OpenTabsView';
+import { TRASH_FOLDER_ID } from '../utils/trash';
+import { DEAD_LINKS_FOLDER_ID } from '../utils/linkReport';
+import { OPEN_TABS_FOLDER_ID } from '../utils/openTabs';
+import { isPseudoFolderId } from '../utils/pseudoFolders';
+import type { CompareMark } from '../utils/compare';
+import type { PaneSettings } from '../utils/workspace';
+import type { SearchRequest } from '../utils/searchQuery';
+
+interface PaneViewProps {
+  folderId: string;
+  onNavigate: (id: string) => void;
+  onOpenTab?: (id: string) => void;
+  onSelectUrl: (url: string) => void;
+  onOpenArchive?: (url: string) => void;
+  className?: string;
+  title?: string;
+  selectedUrl?: string | null;
+  otherFolderId?: string;
+  compareMarks?: Record<string, CompareMark>;
+  initialSettings?: PaneSettings;
+  onSettingsChange?: (settings: PaneSettings) => void;
+  searchRequest?: SearchRequest | null;
+  onSearchRequestHandled?: () => void;
+}
+
+// Routes a pane to either a real bookmark folder or one of the Twin Marks pseudo-folders.
+export const PaneView: React.FC<PaneViewProps> = (props) => {
+  const { folderId, onNavigate, onSelectUrl, className, otherFolderId } = props;
+  const lastFolderIdRef = useRef(folderId);
+
+  useEffect(() => {
+    if (!isPseudoFolderId(folderId)) {
+      lastFolderIdRef.current = folderId;
+    }
+  }, [folderId]);
+
+  if (folderId === TRASH_FOLDER_ID) {
+    return (
+      <TrashView
+        onBack={() => onNavigate(lastFolderIdRef.current)}
+        className={className}
+      />
+    );
+  }
+
+  if (folderId === DEAD_LINKS_FOLDER_ID) {
+    return (
+      <DeadLinksView
+        onBack={() => onNavigate(lastFolderIdRef.current)}
+        onNavigate={onNavigate}
+        onSelectUrl={onSelectUrl}
+        className={className}
+      />
+    );
+  }
+
+  if (folderId === OPEN_TABS_FOLDER_ID) {
+    return (
+      <OpenTabsView
+        onBack={() => onNavigate(lastFolderIdRef.current)}
+        onSelectUrl={onSelectUrl}
+        otherFolderId={otherFolderId && !isPseudoFolderId(otherFolderId) ? otherFolderId : undefined}
+        className={className}
+      />
+    );
+  }
+
+  return <BookmarkList {...props} otherFolderId={otherFolderId && !isPseudoFolderId(otherFolderId) ? otherFolderId : undefined} />;
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { canFetchPreviews, fetchPagePreview, isFrameBlocked } from '../utils/pagePreview';
+import type { PagePreview } from '../utils/pagePreview';
+import { findArchiveByUrl, getArchivedHtml, subscribeArchives } from '../utils/archive';
+import type { ArchiveMeta } from '../utils/archive';
+import { getDomain } from '../utils/urlNormalize';
+import { Archive, ExternalLink, Globe, Loader2, Maximize2, ShieldAlert } from 'lucide-react';
+
+// 'auto' shows the live page unless the site refuses to be framed; then the offline copy or a card
+export type PreviewMode = 'auto' | 'live' | 'card' | 'archive';
+
+interface PreviewPanelProps {
+  url: string | null;
+  mode: PreviewMode;
+  onModeChange: (mode: PreviewMode) => void;
+}
+
+const MODES: { mode: PreviewMode; label: string; title: string }[] = [
+  { mode: 'auto', label: 'Auto', title: 'Live page, or the offline copy or a card when the site blocks embedding' },
+  { mode: 'live', label: 'Live', title: 'Always embed the page' },
+  { mode: 'card', label: 'Card', title: 'Always show the metadata card' },
+  { mode: 'archive', label: 'Offline', title: 'Show the archived copy of the page' },
+];
+
+const describeStatus = (preview: PagePreview) => {
+  if (preview.error) return { label: preview.error, className: 'text-rose-400 border-rose-500/30 bg-rose-500/10' };
+  if (preview.status === undefined) return null;
+  return preview.status >= 400
+    ? { label: `HTTP ${preview.status}`, className: 'text-rose-400 border-rose-500/30 bg-rose-500/10' }
+    : { label: `HTTP ${preview.status}`, className: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' };
+};
+
+const PreviewCard: React.FC<{ url: string; preview: PagePreview | null }> = ({ url, preview }) => {
+  if (!canFetchPreviews()) {
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-slate-600 gap-3">
+            <ShieldAlert size={40} className="opacity-20" />
+            <span className="text-sm font-medium opacity-50">Page cards are only available inside the extension</span>
+        </div>
+    );
+  }
+  if (!preview) {
+    return (
+        <div className="flex items-center justify-center h-full text-slate-500 gap-2 text-sm">
+            <Loader2 size={16} className="animate-spin text-blue-500" />
+            Fetching page...
+        </div>
+    );
+  }
+
+  const status = describeStatus(preview);
+  const finalUrl = preview.finalUrl && preview.finalUrl !== url ? preview.finalUrl : null;
+
+  return (
+    <div className="h-full overflow-y-auto">
+        <div className="max-w-3xl mx-auto p-6 flex gap-6">
+            <div className="flex-1 min-w-0 space-y-3">
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                    {preview.favicon ? (
+                        <img src={preview.favicon} alt="" className="w-4 h-4 rounded-sm" onError={(e) => { e.currentTarget.style.display = 'none'; }} />
+                    ) : (
+                        <Globe size={14} />
+                    )}
+                    <span className="truncate">{preview.siteName || getDomain(preview.finalUrl || url) || url}</span>
+                    {status && (
+                        <span className={`px-1.5 py-0.5 rounded border font-mono text-[10px] ${status.className}`}>{status.label}</span>
+                    )}
+                </div>
+                <h2 className="text-lg font-bold text-slate-100 leading-snug">{preview.title || url}</h2>
+                {preview.description && <p className="text-sm text-slate-400 leading-relaxed">{preview.description}</p>}
+                {finalUrl && (
+                    <div className="text-[11px] font-mono text-slate-500 break-all">
+                        Redirected to <span className="text-amber-400/90">{finalUrl}</span>
+                    </div>
+                )}
+                {preview.frameBlockedBy && (
+                    <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+                        <ShieldAlert size={12} className="text-amber-500/70" />
+                        This site cannot be embedded ({preview.frameBlockedBy})
+                    </div>
+                )}
+                {preview.excerpt && (
+                    <div className="pt-3 border-t border-slate-800 text-xs text-slate-400 leading-relaxed whitespace-pre-line">
+                        {preview.excerpt}
+                    </div>
+                )}
+            </div>
+            {preview.image && (
+                <img
+                    src={preview.image}
+                    alt=""
+                    className="w-64 max-h-48 object-cover rounded-lg border border-slate-800 flex-shrink-0 self-start"
+                    onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                />
+            )}
+        </div>
+    </div>
+  );
+};
+
+interface ArchivedPage {
+  url: string;
+  archive: ArchiveMeta | null;
+  html: string | null;
+}
+
+const ArchiveView: React.FC<{ offline: ArchivedPage | null }> = ({ offline }) => {
+  if (offline && !offline.archive) {
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-slate-600 gap-3">
+            <Archive size={40} className="opacity-20" />
+            <span className="text-sm font-medium opacity-50">This page has no offline copy yet</span>
+        </div>
+    );
+  }
+  if (!offline?.archive || offline.html === null) {
+    return (
+        <div className="flex items-center justify-center h-full text-slate-500 gap-2 text-sm">
+            <Loader2 size={16} className="animate-spin text-blue-500" />
+            Opening offline copy...
+        </div>
+    );
+  }
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+        <div className="flex items-center gap-1.5 px-3 py-1 text-[11px] text-amber-400/90 bg-amber-500/10 border-b border-amber-500/20 flex-none">
+            <Archive size={12} />
+            Offline copy captured {new Date(offline.archive.capturedAt).toLocaleString()}
+        </div>
+        <div className="flex-1 relative bg-white">
+            {/* Archives are stripped of scripts, and without allow-scripts none can run */}
+            <iframe
+                srcDoc={offline.html}
+                className="w-full h-full border-none"
+                title="Offline copy"
+                sandbox="allow-popups allow-popups-to-escape-sandbox"
+                referrerPolicy="no-referrer"
+            />
+        </div>
+    </div>
+  );
+};
+
+export const PreviewPanel: React.FC<PreviewPanelProps> = ({ url, mode, onModeChange }) => {
+  // Tagged with its URL so a stale result never shows for the next selection
+  const [result, setResult] = useState<{ url: string; preview: PagePreview } | null>(null);
+  const [archived, setArchived] = useState<ArchivedPage | null>(null);
+
+  useEffect(() => {
+    if (!url || !canFetchPreviews()) return;
+    let cancelled = false;
+    fetchPagePreview(url).then(preview => {
+        if (!cancelled) setResult({ url, preview });
+    });
+    return () => {
+        cancelled = true;
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    const load = async () => {
+        const archive = await findArchiveByUrl(url);
+        if (cancelled) return;
+        setArchived({ url, archive, html: null });
+        if (!archive) return;
+        const html = await getArchivedHtml(archive.bookmarkId);
+        if (!cancelled) setArchived({ url, archive, html });
+    };
+    load().catch(err => console.error('Failed to load archive:', err));
+    const unsubscribe = subscribeArchives(() => {
+        load().catch(err => console.error('Failed to load archive:', err));
+    });
+    return () => {
+        cancelled = true;
+        unsubscribe();
+    };
+  }, [url]);
+
+  const preview = result && result.url === url ? result.preview : null;
+  const offline = archived && archived.url === url ? archived : null;
+  const frameBlocked = mode === 'auto' && !!preview && isFrameBlocked(preview);
+  const showArchive = mode === 'archive' || (frameBlocked && !!offline?.archive);
+  const showCard = mode === 'card' || (frameBlocked && !showArchive);
+
+  return (
+    <div className="h-full bg-slate-900 border-t border-slate-800 shadow-[0_-4px_20px_rgba(0,0,0,0.4)] z-10 flex flex-col">
+        <div className="flex items-center justify-between px-6 py-2 bg-slate-900 border-b border-slate-800 h-10 select-none flex-none">
+            <div className="flex items-center gap-2 max-w-[60%]">
+                <div className={`w-2 h-2 rounded-full ${url ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.6)]' : 'bg-slate-700'}`} />
+                <span className="text-xs font-mono text-slate-400 truncate">
+                    {url || 'Waiting for selection...'}
+                </span>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <div className="flex items-center p-0.5 bg-slate-950 border border-slate-800 rounded-md">
+                    {MODES.map(option => (
+                        <button
+                            key={option.mode}
+                            onClick={() => onModeChange(option.mode)}
+                            className={`px-2 py-0.5 text-[11px] font-medium rounded transition-colors ${mode === option.mode ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+                            title={option.title}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                {url && (
+                    <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1.5 text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors px-2 py-1 hover:bg-blue-500/10 rounded-md"
+                    >
+                        <span>Open External</span>
+                        <ExternalLink size={12} />
+                    </a>
+                )}
+            </div>
+        </div>
+        <div className="flex-1 relative bg-slate-950 flex flex-col min-h-0">
+            {!url ? (
+                <div className="flex flex-col items-center justify-center h-full text-slate-600 gap-3">
+                    <Maximize2 size={40} className="opacity-20" />
+                    <span className="text-sm font-medium opacity-50">Select a bookmark to preview content</span>
+                </div>
+            ) : showArchive ? (
+                <ArchiveView offline={offline} />
+            ) : showCard ? (
+                <PreviewCard url={url} preview={preview} />
+            ) : (
+                <div className="flex-1 relative w-full h-full bg-white">
+                    <iframe
+                        src={url}
+                        className="w-full h-full border-none"
+                        title="Preview"
+                        sandbox="allow-scripts allow-same-origin allow-forms"
+                        referrerPolicy="no-referrer"
+                    />
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getTree } from '../utils/bookmarkService';
+import type { BookmarkNode } from '../utils/bookmarkService';
+import { getAllMetadata } from '../utils/metadata';
+import { applyChanges, compileRule, createRule, listRules, planRules, saveRules, subscribeRules } from '../utils/rules';
+import type { OrganizeRule, ProposedChange, RuleAction } from '../utils/rules';
+import { findNode, flattenTree, formatPath } from '../utils/treeUtils';
+import { Modal } from './Modal';
+import { ArrowDown, ArrowLeft, ArrowUp, CheckSquare, Loader2, Play, Plus, Square, Trash2, Wand2 } from 'lucide-react';
+
+interface RulesManagerProps {
+  onClose: () => void;
+  // Folders open in the two panes, offered as quick scopes
+  paneFolderIds: string[];
+}
+
+const fieldClassName = 'bg-slate-950 text-xs text-slate-300 border border-slate-700 rounded-md px-2 py-1 outline-none focus:border-blue-500';
+
+const defaultAction = (type: RuleAction['type'], folderId: string): RuleAction => {
+  switch (type) {
+    case 'move': return { type, folderId };
+    case 'rename': return { type, template: '{title}' };
+    case 'tag': return { type, tags: [] };
+  }
+};
+
+const describeProposal = (change: ProposedChange) => {
+  const parts: string[] = [];
+  if (change.title) parts.push(`rename to "${change.title}"`);
+  if (change.move) parts.push(`move to ${change.move.path}`);
+  if (change.tags) parts.push(`tag ${change.tags.map(tag => `#${tag}`).join(' ')}`);
+  return parts.join(' · ');
+};
+
+export const RulesManager: React.FC<RulesManagerProps> = ({ onClose, paneFolderIds }) => {
+  const [rules, setRules] = useState<OrganizeRule[]>([]);
+  const [tree, setTree] = useState<BookmarkNode[]>([]);
+  const [scopeId, setScopeId] = useState('');
+  const [proposals, setProposals] = useState<ProposedChange[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const load = () => listRules().then(setRules);
+    load();
+    getTree().then(setTree);
+    return subscribeRules(load);
+  }, []);
+
+  const folders = useMemo(() => flattenTree(tree).filter(item => !item.node.url && item.depth > 0), [tree]);
+  const folderLabel = (id: string) => {
+      const item = folders.find(folder => folder.node.id === id);
+      return item ? formatPath([...item.path, item.node.title]) : '(missing folder)';
+  };
+
+  const updateRules = (next: OrganizeRule[]) => {
+      setRules(next);
+      saveRules(next);
+  };
+
+  const updateRule = (id: string, changes: Partial<OrganizeRule>) => {
+      updateRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+      const next = [...rules];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      updateRules(next);
+  };
+
+  const handlePreview = async () => {
+      setIsWorking(true);
+      try {
+          const [currentTree, metadata] = await Promise.all([getTree(), getAllMetadata()]);
+          setTree(currentTree);
+          const scope = scopeId ? findNode(currentTree, scopeId) : null;
+          const planned = planRules(rules, scope ? [scope] : currentTree, currentTree, metadata);
+          setProposals(planned);
+          setSelectedIds(new Set(planned.map(change => change.node.id)));
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleApply = async () => {
+      if (!proposals || selectedIds.size === 0) return;
+      setIsWorking(true);
+      try {
+          await applyChanges(proposals.filter(change => selectedIds.has(change.node.id)));
+      } finally {
+          setIsWorking(false);
+      }
+      await handlePreview();
+  };
+
+  const toggleProposal = (id: string) => {
+      const next = new Set(selectedIds);
+      if (next.has(id)) {
+          next.delete(id);
+      } else {
+          next.add(id);
+      }
+      setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+      if (!proposals) return;
+      setSelectedIds(selectedIds.size === proposals.length ? new Set() : new Set(proposals.map(change => change.node.id)));
+  };
+
+  if (proposals) {
+      return (
+        <Modal
+            title="Dry Run"
+            icon={<Wand2 size={16} className="text-blue-500" />}
+            onClose={onClose}
+            footer={
+                <>
+                    <button
+                        onClick={() => setProposals(null)}
+                        className="mr-auto flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+                    >
+                        <ArrowLeft size={12} /> Rules
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={selectedIds.size === 0 || isWorking}
+                        className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-30"
+                    >
+                        {isWorking ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+                        Apply {selectedIds.size > 0 ? selectedIds.size : ''} changes
+                    </button>
+                </>
+            }
+        >
+          <div className="p-3">
+            {proposals.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                    <Wand2 size={32} className="opacity-20" />
+                    <span className="text-xs font-medium">Nothing to change, everything is already in place</span>
+                </div>
+            ) : (
+                <div className="space-y-1">
+                    <button onClick={toggleAll} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-400 hover:text-blue-400">
+                        {selectedIds.size === proposals.length ? <CheckSquare size={14} className="text-blue-500" /> : <Square size={14} />}
+                        {proposals.length} proposed changes
+                    </button>
+                    {proposals.map(change => (
+                        <div
+                            key={change.node.id}
+                            onClick={() => toggleProposal(change.node.id)}
+                            className={`flex items-center gap-3 px-2 py-1.5 rounded-lg cursor-pointer border transition-colors
+                              ${selectedIds.has(change.node.id) ? 'bg-blue-900/20 border-blue-500/30' : 'border-transparent hover:bg-slate-800'}`}
+                        >
+                            <span className={selectedIds.has(change.node.id) ? 'text-blue-500' : 'text-slate-600'}>
+                                {selectedIds.has(change.node.id) ? <CheckSquare size={14} /> : <Square size={14} />}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-slate-300 truncate">{change.node.title || change.node.url}</div>
+                                <div className="text-[10px] text-slate-500 font-mono truncate">
+                                    {formatPath(change.path)} · {describeProposal(change)}
+                                </div>
+                            </div>
+                            <span className="text-[10px] text-slate-600 truncate max-w-[30%] flex-shrink-0">{change.ruleNames.join(', ')}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+          </div>
+        </Modal>
+      );
+  }
+
+  return (
+    <Modal
+        title="Organize Rules"
+        icon={<Wand2 size={16} className="text-blue-500" />}
+        onClose={onClose}
+        footer={
+            <>
+                <button
+                    onClick={() => updateRules([...rules, createRule()])}
+                    className="mr-auto flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-blue-400 transition-colors"
+                >
+                    <Plus size={12} /> Add rule
+                </button>
+                <select value={scopeId} onChange={(e) => setScopeId(e.target.value)} className={`${fieldClassName} max-w-56`}>
+                    <option value="">Whole tree</option>
+                    {paneFolderIds.filter((id, i) => paneFolderIds.indexOf(id) === i).map(id => (
+                        <option key={id} value={id}>{folderLabel(id)}</option>
+                    ))}
+                    {folders.filter(item => !paneFolderIds.includes(item.node.id)).map(item => (
+                        <option key={item.node.id} value={item.node.id}>{formatPath([...item.path, item.node.title])}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handlePreview}
+                    disabled={isWorking || !rules.some(rule => rule.enabled)}
+                    className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-30"
+                >
+                    {isWorking ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+                    Preview
+                </button>
+            </>
+        }
+    >
+      <div className="p-3 space-y-2">
+        {rules.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-32 text-slate-600 space-y-2">
+                <Wand2 size={32} className="opacity-20" />
+                <span className="text-xs font-medium">No rules yet, e.g. URL glob github.com/* → move to Dev/GitHub</span>
+            </div>
+        )}
+
+        {rules.map((rule, index) => {
+            const isInvalid = rule.pattern.trim() !== '' && !compileRule(rule);
+            const moveTarget = rule.action.type === 'move' ? rule.action.folderId : null;
+            return (
+                <div key={rule.id} className={`rounded-lg border border-slate-800 bg-slate-950/40 p-2 space-y-2 ${rule.enabled ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={rule.enabled}
+                            onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                            className="accent-blue-500"
+                            title="Enabled"
+                        />
+                        <span className="text-[10px] font-mono text-slate-600 w-4">{index + 1}</span>
+                        <input
+                            value={rule.name}
+                            onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                            className="flex-1 bg-transparent text-sm text-slate-200 outline-none border-b border-transparent focus:border-blue-500"
+                        />
+                        <label className="flex items-center gap-1 text-[11px] text-slate-500">
+                            <input
+                                type="checkbox"
+                                checked={rule.stop}
+                                onChange={(e) => updateRule(rule.id, { stop: e.target.checked })}
+                                className="accent-blue-500"
+                            />
+                            Stop here
+                        </label>
+                        <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1 text-slate-500 hover:text-blue-400 disabled:opacity-20" title="Move up">
+                            <ArrowUp size={14} />
+                        </button>
+                        <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="p-1 text-slate-500 hover:text-blue-400 disabled:opacity-20" title="Move down">
+                            <ArrowDown size={14} />
+                        </button>
+                        <button
+                            onClick={() => updateRules(rules.filter(r => r.id !== rule.id))}
+                            className="p-1 text-slate-500 hover:text-rose-400"
+                            title="Delete rule"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-2 pl-10">
+                        <span className="text-[11px] text-slate-500">If</span>
+                        <select value={rule.field} onChange={(e) => updateRule(rule.id, { field: e.target.value as OrganizeRule['field'] })} className={fieldClassName}>
+                            <option value="url">URL</option>
+                            <option value="domain">Domain</option>
+                            <option value="title">Title</option>
+                        </select>
+                        <select value={rule.syntax} onChange={(e) => updateRule(rule.id, { syntax: e.target.value as OrganizeRule['syntax'] })} className={fieldClassName}>
+                            <option value="glob">matches glob</option>
+                            <option value="regex">matches regex</option>
+                        </select>
+                        <input
+                            value={rule.pattern}
+                            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                            placeholder={rule.syntax === 'glob' ? (rule.field === 'domain' ? '*.atlassian.net' : 'github.com/*') : '^https://github\\.com/'}
+                            className={`${fieldClassName} flex-1 font-mono ${isInvalid ? 'border-rose-500 text-rose-300' : ''}`}
+                        />
+                    </div>
+                    <div className="flex items-center gap-2 pl-10">
+                        <span className="text-[11px] text-slate-500">then</span>
+                        <select
+                            value={rule.action.type}
+                            onChange={(e) => updateRule(rule.id, { action: defaultAction(e.target.value as RuleAction['type'], folders[0]?.node.id ?? '') })}
+                            className={fieldClassName}
+                        >
+                            <option value="move">move to</option>
+                            <option value="rename">rename to</option>
+                            <option value="tag">add tags</option>
+                        </select>
+                        {moveTarget !== null && (
+                            <select
+                                value={moveTarget}
+                                onChange={(e) => updateRule(rule.id, { action: { type: 'move', folderId: e.target.value } })}
+                                className={`${fieldClassName} flex-1 min-w-0`}
+                            >
+                                {!folders.some(item => item.node.id === moveTarget) && (
+                                    <option value={moveTarget}>(missing folder)</option>
+                                )}
+                                {folders.map(item => (
+                                    <option key={item.node.id} value={item.node.id}>{formatPath([...item.path, item.node.title])}</option>
+                                ))}
+                            </select>
+                        )}
+                        {rule.action.type === 'rename' && (
+                            <input
+                                value={rule.action.template}
+                                onChange={(e) => updateRule(rule.id, { action: { type: 'rename', template: e.target.value } })}
+                                placeholder="{title} ({domain}), $1 for the first wildcard"
+                                className={`${fieldClassName} flex-1 font-mono`}
+                            />
+                        )}
+                        {rule.action.type === 'tag' && (
+                            <input
+                                key={`${rule.id}-tags`}
+                                defaultValue={rule.action.tags.join(', ')}
+                                onBlur={(e) => updateRule(rule.id, { action: { type: 'tag', tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean) } })}
+                                placeholder="work, jira"
+                                className={`${fieldClassName} flex-1`}
+                            />
+                        )}
+                    </div>
+                </div>
+            );
+        })}
+      </div>
+    </Modal>
+  );
+};
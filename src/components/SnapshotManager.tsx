@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getTree } from '../utils/bookmarkService';
+import { deleteSnapshot, listSnapshots, loadSnapshot, saveSnapshot, subscribeSnapshots } from '../utils/snapshots';
+import type { Snapshot, SnapshotMeta } from '../utils/snapshots';
+import { diffTrees, isChangeInFolder, restoreChanges } from '../utils/treeDiff';
+import type { TreeChange, TreeChangeType, TreeDiff } from '../utils/treeDiff';
+import { flattenTree, formatPath } from '../utils/treeUtils';
+import { Modal } from './Modal';
+import { ArrowLeft, Camera, CheckSquare, GitCompare, Loader2, RotateCcw, Square, Trash2 } from 'lucide-react';
+
+interface SnapshotManagerProps {
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<TreeChangeType, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' },
+  removed: { label: 'Removed', className: 'text-rose-400 border-rose-500/30 bg-rose-500/10' },
+  moved: { label: 'Moved', className: 'text-blue-400 border-blue-500/30 bg-blue-500/10' },
+  renamed: { label: 'Renamed', className: 'text-amber-400 border-amber-500/30 bg-amber-500/10' },
+  'url-changed': { label: 'URL', className: 'text-violet-400 border-violet-500/30 bg-violet-500/10' },
+};
+
+const describeChange = (change: TreeChange) => {
+  switch (change.type) {
+    case 'added':
+      return `now in ${formatPath(change.currentPath)}`;
+    case 'removed':
+      return `was in ${formatPath(change.snapshotPath)}`;
+    case 'moved':
+      return `${formatPath(change.snapshotPath)} → ${formatPath(change.currentPath)}`;
+    default:
+      return `${change.before} → ${change.after}`;
+  }
+};
+
+export const SnapshotManager: React.FC<SnapshotManagerProps> = ({ onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [active, setActive] = useState<Snapshot | null>(null);
+  const [diff, setDiff] = useState<TreeDiff | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const load = () => listSnapshots().then(setSnapshots);
+    load();
+    return subscribeSnapshots(load);
+  }, []);
+
+  const folders = useMemo(() => {
+      if (!active) return [];
+      return flattenTree(active.tree).filter(item => !item.node.url && item.depth > 0);
+  }, [active]);
+
+  const handleCapture = async () => {
+      setIsCapturing(true);
+      try {
+          await saveSnapshot(newName);
+          setNewName('');
+      } finally {
+          setIsCapturing(false);
+      }
+  };
+
+  const compareWith = async (snapshot: Snapshot) => {
+      setActive(snapshot);
+      setDiff(null);
+      setSelectedKeys(new Set());
+      setDiff(diffTrees(snapshot.tree, await getTree()));
+  };
+
+  const openSnapshot = async (id: string) => {
+      const snapshot = await loadSnapshot(id);
+      if (snapshot) await compareWith(snapshot);
+  };
+
+  const handleDelete = async (snapshot: SnapshotMeta) => {
+      if (confirm(`Delete snapshot "${snapshot.name}"?`)) {
+          await deleteSnapshot(snapshot.id);
+      }
+  };
+
+  const selectFolder = (folderId: string) => {
+      if (!diff) return;
+      const inFolder = diff.changes.filter(change => isChangeInFolder(change, folderId, diff.idMap));
+      setSelectedKeys(new Set(inFolder.map(change => change.key)));
+  };
+
+  const toggleChange = (key: string) => {
+      const next = new Set(selectedKeys);
+      if (next.has(key)) {
+          next.delete(key);
+      } else {
+          next.add(key);
+      }
+      setSelectedKeys(next);
+  };
+
+  const toggleAll = () => {
+      if (!diff) return;
+      setSelectedKeys(selectedKeys.size === diff.changes.length ? new Set() : new Set(diff.changes.map(change => change.key)));
+  };
+
+  const handleRestore = async () => {
+      if (!diff || !active || selectedKeys.size === 0) return;
+      setIsRestoring(true);
+      try {
+          await restoreChanges(diff.changes.filter(change => selectedKeys.has(change.key)), diff);
+      } finally {
+          setIsRestoring(false);
+      }
+      await compareWith(active);
+  };
+
+  if (active) {
+      return (
+        <Modal
+            title={`Compare with "${active.name}"`}
+            icon={<GitCompare size={16} className="text-blue-500" />}
+            onClose={onClose}
+            footer={
+                <>
+                    <button
+                        onClick={() => { setActive(null); setDiff(null); }}
+                        className="mr-auto flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+                    >
+                        <ArrowLeft size={12} /> Snapshots
+                    </button>
+                    <select
+                        value=""
+                        onChange={(e) => e.target.value && selectFolder(e.target.value)}
+                        className="max-w-56 bg-slate-950 text-xs text-slate-400 border border-slate-700 rounded-md px-2 py-1 outline-none focus:border-blue-500"
+                    >
+                        <option value="">Select whole folder...</option>
+                        {folders.map(item => (
+                            <option key={item.node.id} value={item.node.id}>{formatPath([...item.path, item.node.title])}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleRestore}
+                        disabled={selectedKeys.size === 0 || isRestoring}
+                        className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-30"
+                    >
+                        {isRestoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                        Restore {selectedKeys.size > 0 ? selectedKeys.size : ''} selected
+                    </button>
+                </>
+            }
+        >
+          <div className="p-3">
+            {!diff && (
+                <div className="flex items-center justify-center h-40 text-slate-500 gap-2">
+                    <Loader2 size={16} className="animate-spin" />
+                    <span className="text-xs">Comparing...</span>
+                </div>
+            )}
+            {diff?.changes.length === 0 && (
+                <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                    <GitCompare size={32} className="opacity-20" />
+                    <span className="text-xs font-medium">No differences since this snapshot</span>
+                </div>
+            )}
+            {diff && diff.changes.length > 0 && (
+                <div className="space-y-1">
+                    <button onClick={toggleAll} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-400 hover:text-blue-400">
+                        {selectedKeys.size === diff.changes.length ? <CheckSquare size={14} className="text-blue-500" /> : <Square size={14} />}
+                        {diff.changes.length} differences
+                    </button>
+                    {diff.changes.map(change => (
+                        <div
+                            key={change.key}
+                            onClick={() => toggleChange(change.key)}
+                            className={`flex items-center gap-3 px-2 py-1.5 rounded-lg cursor-pointer border transition-colors
+                              ${selectedKeys.has(change.key) ? 'bg-blue-900/20 border-blue-500/30' : 'border-transparent hover:bg-slate-800'}`}
+                        >
+                            <span className={selectedKeys.has(change.key) ? 'text-blue-500' : 'text-slate-600'}>
+                                {selectedKeys.has(change.key) ? <CheckSquare size={14} /> : <Square size={14} />}
+                            </span>
+                            <span className={`w-16 text-center text-[10px] font-medium border rounded px-1 flex-shrink-0 ${CHANGE_STYLES[change.type].className}`}>
+                                {CHANGE_STYLES[change.type].label}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-slate-300 truncate">{change.title || change.url}</div>
+                                <div className="text-[10px] text-slate-500 font-mono truncate">{describeChange(change)}</div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+          </div>
+        </Modal>
+      );
+  }
+
+  return (
+    <Modal
+        title="Snapshots"
+        icon={<Camera size={16} className="text-blue-500" />}
+        onClose={onClose}
+    >
+      <div className="p-3 space-y-3">
+        <form
+            onSubmit={(e) => { e.preventDefault(); handleCapture(); }}
+            className="flex items-center gap-2"
+        >
+            <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Snapshot name, e.g. Before cleanup"
+                className="flex-1 p-2 text-sm bg-slate-950 text-slate-200 rounded-md border border-slate-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+            />
+            <button
+                type="submit"
+                disabled={isCapturing}
+                className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-30"
+            >
+                {isCapturing ? <Loader2 size={14} className="animate-spin" /> : <Camera size={14} />}
+                Capture
+            </button>
+        </form>
+
+        {snapshots.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-32 text-slate-600 space-y-2">
+                <Camera size={32} className="opacity-20" />
+                <span className="text-xs font-medium">No snapshots yet</span>
+            </div>
+        )}
+
+        <div className="space-y-1">
+            {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="group flex items-center gap-3 px-3 py-2 rounded-lg border border-transparent hover:bg-slate-800 hover:border-slate-700 transition-colors">
+                    <Camera size={16} className="text-slate-500 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                        <div className="text-sm text-slate-300 truncate">{snapshot.name}</div>
+                        <div className="text-[10px] text-slate-500 font-mono">
+                            {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.bookmarkCount} links · {snapshot.folderCount} folders
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => openSnapshot(snapshot.id)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-md transition-colors"
+                    >
+                        <GitCompare size={12} /> Compare
+                    </button>
+                    <button
+                        onClick={() => handleDelete(snapshot)}
+                        className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-slate-700 rounded-md transition-colors opacity-0 group-hover:opacity-100"
+                        title="Delete snapshot"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+            ))}
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { SORT_MODES } from '../utils/sorting';
+import type { SortOptions } from '../utils/sorting';
+import { ArrowDownAZ, ArrowUpDown, ArrowUpZA, Check, Loader2 } from 'lucide-react';
+
+interface SortMenuProps {
+  options: SortOptions;
+  onChange: (options: SortOptions) => void;
+  // Undefined when the pane cannot be reordered, e.g. while showing search results
+  onApply?: (recursive: boolean) => Promise<void>;
+}
+
+export const SortMenu: React.FC<SortMenuProps> = ({ options, onChange, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [recursive, setRecursive] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+      if (!onApply) return;
+      setIsApplying(true);
+      try {
+          await onApply(recursive);
+          setIsOpen(false);
+      } finally {
+          setIsApplying(false);
+      }
+  };
+
+  const isSorted = options.mode !== 'none';
+
+  return (
+    <div className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className={`p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors ${isSorted || isOpen ? 'text-blue-500 bg-blue-500/10' : ''}`}
+            title="Sort"
+        >
+            <ArrowUpDown size={16} />
+        </button>
+        {isOpen && (
+            <>
+                <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+                <div className="absolute right-0 top-full mt-1 z-30 w-56 py-1 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl shadow-black/50 animate-in fade-in zoom-in-95 duration-100 text-xs">
+                    <div className="px-3 py-1 text-[10px] font-bold uppercase tracking-widest text-slate-500">Sort by</div>
+                    {SORT_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            onClick={() => onChange({ ...options, mode })}
+                            className="w-full flex items-center gap-2.5 px-3 py-1.5 text-slate-300 hover:bg-slate-700 hover:text-blue-300 transition-colors text-left"
+                        >
+                            <span className="w-3.5 text-blue-400">{options.mode === mode && <Check size={14} />}</span>
+                            {label}
+                        </button>
+                    ))}
+                    <div className="my-1 border-t border-slate-700" />
+                    <label className="flex items-center gap-2.5 px-3 py-1.5 text-slate-300 hover:bg-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.foldersFirst}
+                            onChange={(e) => onChange({ ...options, foldersFirst: e.target.checked })}
+                            className="accent-blue-500"
+                        />
+                        Folders first
+                    </label>
+                    <button
+                        onClick={() => onChange({ ...options, descending: !options.descending })}
+                        disabled={!isSorted}
+                        className="w-full flex items-center gap-2.5 px-3 py-1.5 text-slate-300 hover:bg-slate-700 hover:text-blue-300 transition-colors text-left disabled:opacity-40"
+                    >
+                        {options.descending ? <ArrowUpZA size={14} className="text-slate-500" /> : <ArrowDownAZ size={14} className="text-slate-500" />}
+                        {options.descending ? 'Descending' : 'Ascending'}
+                    </button>
+                    {onApply && (
+                        <>
+                            <div className="my-1 border-t border-slate-700" />
+                            <label className="flex items-center gap-2.5 px-3 py-1.5 text-slate-300 hover:bg-slate-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={recursive}
+                                    onChange={(e) => setRecursive(e.target.checked)}
+                                    className="accent-blue-500"
+                                />
+                                Include subfolders
+                            </label>
+                            <div className="px-3 py-1.5">
+                                <button
+                                    onClick={handleApply}
+                                    disabled={!isSorted || isApplying}
+                                    className="w-full flex items-center justify-center gap-2 px-3 py-1 font-bold bg-blue-600 text-white rounded-md hover:bg-blue-500 transition-all disabled:opacity-40 disabled:hover:bg-blue-600"
+                                    title="Rewrite the real bookmark order to match this sort"
+                                >
+                                    {isApplying && <Loader2 size={12} className="animate-spin" />}
+                                    Apply order
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { getBookmarkStoreSnapshot, subscribeBookmarkStore } from '../utils/bookmarkStore';
+import { getLinkReport, subscribeLinkReport } from '../utils/linkReport';
+import type { LinkReport } from '../utils/linkReport';
+import { getAllMetadata, subscribeMetadata } from '../utils/metadata';
+import type { BookmarkMeta } from '../utils/metadata';
+import { computeStats } from '../utils/stats';
+import type { FolderStats } from '../utils/stats';
+import { formatPath } from '../utils/treeUtils';
+import { Modal } from './Modal';
+import { BarChart3, Clock, Folder, Globe, Layers, Loader2, ShieldAlert, FileText } from 'lucide-react';
+
+interface StatsDashboardProps {
+  onClose: () => void;
+  // Open a folder in the active pane
+  onOpenFolder: (folderId: string) => void;
+  // Run a search in the active pane, inside `folderId` or across all folders
+  onSearch: (query: string, folderId?: string) => void;
+  onOpenDeadLinks: () => void;
+}
+
+const LARGEST_FOLDER_COUNT = 12;
+// Months shown in the timeline; older ones are summed into the first bar's tooltip
+const TIMELINE_MONTHS = 36;
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <section className="space-y-2">
+      <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500">
+          {icon}
+          {title}
+      </h3>
+      {children}
+  </section>
+);
+
+const Tile: React.FC<{ label: string; value: string; hint?: string; onClick?: () => void }> = ({ label, value, hint, onClick }) => (
+  <button
+      onClick={onClick}
+      disabled={!onClick}
+      className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg bg-slate-950 border border-slate-800 enabled:hover:border-blue-500/50 transition-colors"
+  >
+      <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+      <div className="text-xl font-bold text-slate-100 font-mono">{value}</div>
+      {hint && <div className="text-[10px] text-slate-500 truncate">{hint}</div>}
+  </button>
+);
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ onClose, onOpenFolder, onSearch, onOpenDeadLinks }) => {
+  const { roots } = useSyncExternalStore(subscribeBookmarkStore, getBookmarkStoreSnapshot);
+  const [report, setReport] = useState<LinkReport>({ results: {} });
+  const [metadata, setMetadata] = useState<Record<string, BookmarkMeta>>({});
+
+  useEffect(() => {
+    const loadReport = () => getLinkReport().then(setReport);
+    loadReport();
+    return subscribeLinkReport(loadReport);
+  }, []);
+
+  useEffect(() => {
+    const loadMetadata = () => getAllMetadata().then(setMetadata);
+    loadMetadata();
+    return subscribeMetadata(loadMetadata);
+  }, []);
+
+  const stats = useMemo(() => (roots ? computeStats(roots, report.results, metadata) : null), [roots, report, metadata]);
+
+  const largestFolders = useMemo(() => {
+      if (!stats) return [];
+      return [...stats.folderStats].sort((a, b) => b.bookmarks - a.bookmarks).slice(0, LARGEST_FOLDER_COUNT);
+  }, [stats]);
+
+  if (!stats) {
+      return (
+        <Modal title="Statistics" icon={<BarChart3 size={16} className="text-blue-500" />} onClose={onClose}>
+            <div className="flex items-center justify-center h-40 text-slate-500 gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                <span className="text-xs">Counting bookmarks...</span>
+            </div>
+        </Modal>
+      );
+  }
+
+  const timeline = stats.perMonth.slice(-TIMELINE_MONTHS);
+  const olderCount = stats.perMonth.slice(0, -TIMELINE_MONTHS).reduce((sum, entry) => sum + entry.count, 0);
+  const busiestMonth = Math.max(1, ...timeline.map(entry => entry.count));
+  const topDomainCount = stats.topDomains[0]?.count ?? 1;
+  const largestCount = largestFolders[0]?.bookmarks || 1;
+
+  const folderLabel = (folder: FolderStats) => formatPath([...folder.path, folder.title]);
+
+  return (
+    <Modal
+        title="Statistics"
+        icon={<BarChart3 size={16} className="text-blue-500" />}
+        onClose={onClose}
+        className="max-w-4xl"
+    >
+      <div className="p-4 space-y-6">
+        <div className="flex gap-2">
+            <Tile label="Bookmarks" value={stats.bookmarks.toLocaleString()} />
+            <Tile label="Folders" value={stats.folders.toLocaleString()} />
+            <Tile label="Max depth" value={String(stats.maxDepth)} hint="levels of folders" />
+            <Tile
+                label="Dead links"
+                value={`${percent(stats.dead, stats.checked)}%`}
+                hint={`${stats.dead} of ${stats.checked} checked`}
+                onClick={stats.dead > 0 ? onOpenDeadLinks : undefined}
+            />
+        </div>
+
+        <Section title="Added per month" icon={<Clock size={12} />}>
+            {timeline.length === 0 ? (
+                <div className="text-xs text-slate-600">No dates recorded</div>
+            ) : (
+                <div className="flex items-end gap-px h-28 px-1 bg-slate-950 border border-slate-800 rounded-lg pt-2">
+                    {timeline.map((entry, i) => (
+                        <button
+                            key={entry.month}
+                            onClick={() => entry.count > 0 && onSearch(`added:${entry.month}`)}
+                            className="group flex-1 h-full flex flex-col justify-end min-w-0"
+                            title={`${entry.month}: ${entry.count} bookmarks${i === 0 && olderCount > 0 ? ` (${olderCount} earlier)` : ''}`}
+                        >
+                            <div
+                                className="w-full rounded-t-sm bg-blue-500/60 group-hover:bg-blue-400 transition-colors"
+                                style={{ height: `${(entry.count / busiestMonth) * 100}%` }}
+                            />
+                        </button>
+                    ))}
+                </div>
+            )}
+            {timeline.length > 0 && (
+                <div className="flex justify-between text-[10px] font-mono text-slate-600">
+                    <span>{timeline[0].month}</span>
+                    <span>{timeline[timeline.length - 1].month}</span>
+                </div>
+            )}
+        </Section>
+
+        <div className="grid grid-cols-2 gap-6">
+            <Section title="Top domains" icon={<Globe size={12} />}>
+                <div className="space-y-1">
+                    {stats.topDomains.map(entry => (
+                        <button
+                            key={entry.domain}
+                            onClick={() => onSearch(`site:${entry.domain}`)}
+                            className="group w-full flex items-center gap-2 text-xs text-left"
+                            title={`Show bookmarks on ${entry.domain}`}
+                        >
+                            <span className="w-32 truncate text-slate-400 group-hover:text-blue-300">{entry.domain}</span>
+                            <div className="flex-1 h-3 bg-slate-950 rounded-sm overflow-hidden">
+                                <div className="h-full bg-cyan-500/50 group-hover:bg-cyan-400 transition-colors" style={{ width: `${(entry.count / topDomainCount) * 100}%` }} />
+                            </div>
+                            <span className="w-10 text-right font-mono text-slate-500">{entry.count}</span>
+                        </button>
+                    ))}
+                </div>
+            </Section>
+
+            <Section title="Oldest untouched folders" icon={<Layers size={12} />}>
+                <div className="space-y-1">
+                    {stats.staleFolders.length === 0 && <div className="text-xs text-slate-600">No modification dates recorded</div>}
+                    {stats.staleFolders.map(folder => (
+                        <button
+                            key={folder.id}
+                            onClick={() => onOpenFolder(folder.id)}
+                            className="group w-full flex items-center gap-2 text-xs text-left"
+                            title={folderLabel(folder)}
+                        >
+                            <Folder size={12} className="text-amber-500/70 flex-shrink-0" />
+                            <span className="flex-1 truncate text-slate-400 group-hover:text-blue-300">{folderLabel(folder)}</span>
+                            <span className="font-mono text-slate-500">{new Date(folder.dateGroupModified!).toLocaleDateString()}</span>
+                        </button>
+                    ))}
+                </div>
+            </Section>
+        </div>
+
+        <Section title="Largest folders" icon={<FileText size={12} />}>
+            <div className="space-y-1">
+                {largestFolders.map(folder => (
+                    <div key={folder.id} className="flex items-center gap-2 text-xs">
+                        <button
+                            onClick={() => onOpenFolder(folder.id)}
+                            className="w-56 truncate text-left text-slate-400 hover:text-blue-300"
+                            title={folderLabel(folder)}
+                        >
+                            {folderLabel(folder)}
+                        </button>
+                        {/* The rose part of the bar is the folder's dead links */}
+                        <div className="flex-1 flex h-3 bg-slate-950 rounded-sm overflow-hidden" style={{ maxWidth: `${(folder.bookmarks / largestCount) * 100}%` }}>
+                            <button
+                                onClick={() => onOpenFolder(folder.id)}
+                                className="h-full bg-blue-500/60 hover:bg-blue-400 transition-colors"
+                                style={{ width: `${100 - percent(folder.dead, folder.bookmarks)}%` }}
+                                title={`${folder.bookmarks} bookmarks in ${folder.folders} subfolders`}
+                            />
+                            {folder.dead > 0 && (
+                                <button
+                                    onClick={() => onSearch('dead:true', folder.id)}
+                                    className="h-full bg-rose-500/70 hover:bg-rose-400 transition-colors"
+                                    style={{ width: `${percent(folder.dead, folder.bookmarks)}%` }}
+                                    title={`${folder.dead} dead of ${folder.checked} checked`}
+                                />
+                            )}
+                        </div>
+                        <span className="w-20 text-right font-mono text-slate-600">{folder.folders} folders</span>
+                        <span className="w-24 text-right font-mono text-slate-500">
+                            {folder.bookmarks} links
+                            {folder.checked > 0 && (
+                                <span className={folder.dead > 0 ? 'text-rose-400' : 'text-slate-600'}> · {percent(folder.dead, folder.checked)}%</span>
+                            )}
+                        </span>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center gap-1.5 text-[10px] text-slate-600">
+                <ShieldAlert size={10} />
+                Percentages are dead links among checked bookmarks; click the red part to list them
+            </div>
+        </Section>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Check, Tag } from 'lucide-react';
+
+interface TagFilterMenuProps {
+  // Every tag in use, with the number of bookmarks carrying it
+  tagCounts: Record<string, number>;
+  activeTag: string | null;
+  onChange: (tag: string | null) => void;
+}
+
+export const TagFilterMenu: React.FC<TagFilterMenuProps> = ({ tagCounts, activeTag, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const tags = Object.keys(tagCounts).sort();
+
+  const choose = (tag: string | null) => {
+      onChange(tag);
+      setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className={`p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors ${activeTag || isOpen ? 'text-blue-500 bg-blue-500/10' : ''}`}
+            title={activeTag ? `Filtered by #${activeTag}` : 'Filter by tag'}
+        >
+            <Tag size={16} />
+        </button>
+        {isOpen && (
+            <>
+                <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+                <div className="absolute right-0 top-full mt-1 z-30 w-56 max-h-80 overflow-y-auto py-1 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl shadow-black/50 animate-in fade-in zoom-in-95 duration-100 text-xs">
+                    <div className="px-3 py-1 text-[10px] font-bold uppercase tracking-widest text-slate-500">Filter by tag</div>
+                    {tags.length === 0 && (
+                        <div className="px-3 py-1.5 text-slate-500">No tags yet. Add them in the edit form.</div>
+                    )}
+                    {activeTag && (
+                        <button
+                            onClick={() => choose(null)}
+                            className="w-full flex items-center gap-2.5 px-3 py-1.5 text-slate-300 hover:bg-slate-700 hover:text-blue-300 transition-colors text-left"
+                        >
+                            <span className="w-3.5" />
+                            Show all
+                        </button>
+                    )}
+                    {tags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => choose(tag === activeTag ? null : tag)}
+                            className="w-full flex items-center gap-2.5 px-3 py-1.5 text-slate-300 hover:bg-slate-700 hover:text-blue-300 transition-colors text-left"
+                        >
+                            <span className="w-3.5 text-blue-400">{tag === activeTag && <Check size={14} />}</span>
+                            <span className="flex-1 truncate font-mono">#{tag}</span>
+                            <span className="text-slate-500 font-mono">{tagCounts[tag]}</span>
+                        </button>
+                    ))}
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { getBookmark, restoreFromTrash } from '../utils/bookmarkService';
+import type { BookmarkNode } from '../utils/bookmarkService';
+import {
+  getTrashEntries,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  purgeTrashEntries,
+  emptyTrash,
+  setTrashRetentionDays,
+  subscribeTrash,
+} from '../utils/trash';
+import type { TrashEntry } from '../utils/trash';
+import { runBatch } from '../utils/journal';
+import { setDragPayload } from '../utils/dragDrop';
+import { ArrowLeft, CheckSquare, FileText, Folder, RotateCcw, Square, Trash, Trash2 } from 'lucide-react';
+
+interface TrashViewProps {
+  onBack: () => void;
+  className?: string;
+  title?: string;
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 0];
+
+const countNodes = (node: BookmarkNode): number => {
+  return (node.url ? 1 : 0) + (node.children || []).reduce((sum, child) => sum + countNodes(child), 0);
+};
+
+export const TrashView: React.FC<TrashViewProps> = ({ onBack, className, title }) => {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [parentTitles, setParentTitles] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [retentionDays, setRetentionDays] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      const loaded = await getTrashEntries();
+      setEntries(loaded);
+
+      const titles: Record<string, string> = {};
+      for (const parentId of new Set(loaded.map(entry => entry.parentId))) {
+        const parent = await getBookmark(parentId);
+        titles[parentId] = parent ? parent.title : '(deleted folder)';
+      }
+      setParentTitles(titles);
+    };
+
+    purgeExpiredTrash().then(load);
+    getTrashRetentionDays().then(setRetentionDays);
+    return subscribeTrash(load);
+  }, []);
+
+  const handleRestore = async (entryIds: string[]) => {
+      await runBatch(`Restore ${entryIds.length} items`, async (batch) => {
+          for (const entryId of entryIds) {
+              await restoreFromTrash(entryId, undefined, batch);
+          }
+      });
+      setSelectedIds(new Set());
+  };
+
+  const handlePurge = async (entryIds: string[]) => {
+      if (confirm(`Permanently delete ${entryIds.length} items? This cannot be undone.`)) {
+          await purgeTrashEntries(entryIds);
+          setSelectedIds(new Set());
+      }
+  };
+
+  const handleEmpty = async () => {
+      if (entries.length > 0 && confirm('Empty the trash? This cannot be undone.')) {
+          await emptyTrash();
+          setSelectedIds(new Set());
+      }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+      setRetentionDays(days);
+      await setTrashRetentionDays(days);
+      await purgeExpiredTrash();
+  };
+
+  const handleDragStart = (e: React.DragEvent, entry: TrashEntry) => {
+      setDragPayload(e, { trashEntryId: entry.id }, 'move');
+  };
+
+  const toggleSelection = (id: string) => {
+      const newSet = new Set(selectedIds);
+      if (newSet.has(id)) {
+          newSet.delete(id);
+      } else {
+          newSet.add(id);
+      }
+      setSelectedIds(newSet);
+  };
+
+  const toggleSelectAll = () => {
+      if (selectedIds.size === entries.length && entries.length > 0) {
+          setSelectedIds(new Set());
+      } else {
+          setSelectedIds(new Set(entries.map(entry => entry.id)));
+      }
+  };
+
+  return (
+    <div className={`flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-xl ring-1 ring-rose-500/20 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 bg-slate-900 border-b border-slate-800/50 h-12">
+        <div className="flex items-center gap-2 overflow-hidden flex-1">
+            <button
+                onClick={toggleSelectAll}
+                className="text-slate-500 hover:text-blue-400 transition-colors flex-shrink-0"
+                title="Select All"
+            >
+                {entries.length > 0 && selectedIds.size === entries.length ? (
+                    <CheckSquare size={18} className="text-blue-500" />
+                ) : (
+                    <Square size={18} />
+                )}
+            </button>
+            <button
+                onClick={onBack}
+                className="p-1 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-blue-400 transition-all duration-200 flex-shrink-0"
+                title="Back to folders"
+            >
+                <ArrowLeft size={18} />
+            </button>
+            <div className="flex flex-col min-w-0">
+                <span className="font-bold text-sm truncate text-slate-200 tracking-wide">
+                    {selectedIds.size > 0 ? `${selectedIds.size} Selected` : (title || 'Trash')}
+                </span>
+                <span className="text-[10px] text-rose-400/80 font-mono truncate">/Trash · {entries.length} items</span>
+            </div>
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+            <select
+                value={retentionDays}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                className="bg-slate-950 text-[11px] text-slate-400 border border-slate-700 rounded-md px-1.5 py-1 outline-none focus:border-blue-500"
+                title="Auto-delete after"
+            >
+                {RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days === 0 ? 'Keep forever' : `Keep ${days} days`}</option>
+                ))}
+            </select>
+            {selectedIds.size > 0 && (
+                <>
+                    <button
+                        onClick={() => handleRestore(Array.from(selectedIds))}
+                        className="p-1.5 text-slate-400 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors"
+                        title="Restore Selected"
+                    >
+                        <RotateCcw size={16} />
+                    </button>
+                    <button
+                        onClick={() => handlePurge(Array.from(selectedIds))}
+                        className="p-1.5 text-rose-400 hover:text-rose-300 hover:bg-rose-500/20 rounded-lg transition-colors"
+                        title="Delete Selected Permanently"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </>
+            )}
+            <button
+                onClick={handleEmpty}
+                className="p-1.5 text-slate-400 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
+                title="Empty Trash"
+            >
+                <Trash size={16} />
+            </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 bg-slate-900/50">
+        {entries.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-40 text-slate-600 space-y-2">
+                <Trash size={32} className="opacity-20" />
+                <span className="text-xs font-medium">Trash is empty</span>
+            </div>
+        )}
+
+        {entries.map(entry => (
+          <div
+            key={entry.id}
+            draggable
+            onDragStart={(e) => handleDragStart(e, entry)}
+            className={`group relative flex items-center gap-3 p-2.5 rounded-lg cursor-grab transition-all duration-200 border
+              ${selectedIds.has(entry.id) ? 'bg-blue-900/20 border-blue-500/30' : 'hover:bg-slate-800 border-transparent hover:border-slate-700'}`}
+            onClick={() => toggleSelection(entry.id)}
+          >
+            <div className={`p-1 rounded ${selectedIds.has(entry.id) ? 'text-blue-500' : 'text-slate-600'}`}>
+                {selectedIds.has(entry.id) ? <CheckSquare size={16} /> : <Square size={16} />}
+            </div>
+
+            <div className={`p-2 rounded-lg ${!entry.node.url ? 'bg-amber-500/10 text-amber-500/60' : 'bg-slate-700/30 text-slate-500'}`}>
+                {!entry.node.url ? <Folder size={18} fill="currentColor" fillOpacity={0.2} /> : <FileText size={18} />}
+            </div>
+
+            <div className="flex-1 min-w-0 flex flex-col justify-center">
+                <div className="text-sm font-medium truncate text-slate-400">
+                    {entry.node.title}
+                    {!entry.node.url && (
+                        <span className="ml-2 text-xs font-mono text-slate-600">({countNodes(entry.node)} links)</span>
+                    )}
+                </div>
+                <div className="text-[10px] truncate text-slate-600 font-mono">
+                    from /{parentTitles[entry.parentId] ?? '…'} · {new Date(entry.deletedAt).toLocaleString()}
+                </div>
+            </div>
+
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-slate-800/80 rounded-lg p-0.5 border border-slate-700/50 backdrop-blur-sm absolute right-2 shadow-lg z-10">
+                <button
+                    onClick={(e) => { e.stopPropagation(); handleRestore([entry.id]); }}
+                    className="p-1.5 text-slate-400 hover:text-emerald-400 hover:bg-slate-700 rounded-md transition-colors"
+                    title="Restore to original location"
+                >
+                    <RotateCcw size={14} />
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); handlePurge([entry.id]); }}
+                    className="p-1.5 text-slate-400 hover:text-rose-400 hover:bg-slate-700 rounded-md transition-colors"
+                    title="Delete Permanently"
+                >
+                    <Trash2 size={14} />
+                </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
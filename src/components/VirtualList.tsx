@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  // Height used for rows that have not been measured yet
+  estimateHeight: number;
+  // Rows rendered beyond each edge of the viewport
+  overscan?: number;
+  // Scrolled into view whenever it changes, e.g. the keyboard-focused row
+  scrollToIndex?: number | null;
+  // Stays mounted while scrolled away, e.g. the row being dragged; the browser cancels a drag whose source leaves the DOM
+  keepMountedKey?: string | null;
+  className?: string;
+  // Rendered above the rows and scrolled with them
+  children?: React.ReactNode;
+  containerProps?: React.HTMLAttributes<HTMLDivElement>;
+}
+
+// Index of the first row whose bottom edge lies below `y`
+const findRow = (offsets: number[], y: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= y) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Scrolling list that only mounts the rows near the viewport. Rows keep their
+ * natural height: each rendered row is measured and the rest are estimated, so
+ * the scrollbar stays close to what a fully rendered list would show.
+ */
+export const VirtualList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight,
+  overscan = 8,
+  scrollToIndex,
+  keepMountedKey,
+  className,
+  children,
+  containerProps,
+}: VirtualListProps<T>) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const scrolledToRef = useRef<number | null>(null);
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0, rowsTop: 0 });
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (heights[getKey(item)] ?? estimateHeight);
+    });
+    return result;
+  }, [items, heights, getKey, estimateHeight]);
+
+  const updateViewport = useCallback(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const rowsTop = rowsRef.current?.offsetTop ?? 0;
+    setViewport(prev => (
+      prev.scrollTop === scroller.scrollTop && prev.height === scroller.clientHeight && prev.rowsTop === rowsTop
+        ? prev
+        : { scrollTop: scroller.scrollTop, height: scroller.clientHeight, rowsTop }
+    ));
+  }, []);
+
+  useLayoutEffect(() => {
+    updateViewport();
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(scroller);
+    // Forms above the rows change where the rows start
+    if (headerRef.current) observer.observe(headerRef.current);
+    return () => observer.disconnect();
+  }, [updateViewport]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // One observer for all mounted rows; heights are keyed so they survive re-sorting
+  const measureRow = useCallback((el: HTMLDivElement | null) => {
+    if (!el) return;
+    observerRef.current ??= new ResizeObserver((entries) => {
+      const changes: Record<string, number> = {};
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.key;
+        if (key) changes[key] = (entry.target as HTMLElement).offsetHeight;
+      }
+      setHeights(prev => (Object.entries(changes).every(([key, height]) => prev[key] === height) ? prev : { ...prev, ...changes }));
+    });
+    const observer = observerRef.current;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, []);
+
+  // Only when the target changes; re-measuring must not pull the list back while the user scrolls
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (scrollToIndex === scrolledToRef.current) return;
+    scrolledToRef.current = scrollToIndex ?? null;
+    if (scrollToIndex === null || scrollToIndex === undefined || !scroller || scrollToIndex >= items.length) return;
+    const rowsTop = rowsRef.current?.offsetTop ?? 0;
+    const top = rowsTop + offsets[scrollToIndex];
+    const bottom = rowsTop + offsets[scrollToIndex + 1];
+    if (top < scroller.scrollTop) {
+      scroller.scrollTop = top;
+    } else if (bottom > scroller.scrollTop + scroller.clientHeight) {
+      scroller.scrollTop = bottom - scroller.clientHeight;
+    }
+  }, [scrollToIndex, offsets, items.length]);
+
+  const visibleTop = viewport.scrollTop - viewport.rowsTop;
+  const start = items.length > 0 ? Math.max(0, findRow(offsets, visibleTop) - overscan) : 0;
+  const end = items.length > 0
+    ? Math.min(items.length, findRow(offsets, visibleTop + Math.max(viewport.height, estimateHeight)) + 1 + overscan)
+    : 0;
+
+  const keptIndex = keepMountedKey ? items.findIndex(item => getKey(item) === keepMountedKey) : -1;
+  const renderRow = (index: number, style?: React.CSSProperties) => {
+    const key = getKey(items[index]);
+    return (
+      <div key={key} data-key={key} ref={measureRow} style={style}>
+          {renderItem(items[index], index)}
+      </div>
+    );
+  };
+
+  return (
+    <div ref={scrollerRef} onScroll={updateViewport} className={`relative ${className ?? ''}`} {...containerProps}>
+        <div ref={headerRef}>{children}</div>
+        <div ref={rowsRef} className="relative" style={{ height: offsets[items.length] }}>
+            <div style={{ transform: `translateY(${offsets[start]}px)` }}>
+                {Array.from({ length: end - start }, (_, i) => renderRow(start + i))}
+            </div>
+            {keptIndex !== -1 && (keptIndex < start || keptIndex >= end) &&
+                renderRow(keptIndex, { position: 'absolute', top: offsets[keptIndex], left: 0, right: 0 })}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { deleteWorkspace, listWorkspaces, subscribeWorkspaces } from '../utils/workspace';
+import type { NamedWorkspace } from '../utils/workspace';
+import { LayoutDashboard, Save, X } from 'lucide-react';
+
+interface WorkspaceMenuProps {
+  // Name of the workspace last saved or switched to, if any
+  activeName: string | null;
+  onSave: (name: string) => Promise<void>;
+  onSwitch: (workspace: NamedWorkspace) => void;
+}
+
+export const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({ activeName, onSave, onSwitch }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [workspaces, setWorkspaces] = useState<NamedWorkspace[]>([]);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    const load = () => listWorkspaces().then(setWorkspaces);
+    load();
+    return subscribeWorkspaces(load);
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!name.trim()) return;
+      if (workspaces.some(workspace => workspace.name === name.trim()) && !confirm(`Overwrite the workspace "${name.trim()}"?`)) return;
+      await onSave(name);
+      setName('');
+      setIsOpen(false);
+  };
+
+  const handleDelete = (workspace: NamedWorkspace) => {
+      if (!confirm(`Delete the workspace "${workspace.name}"?`)) return;
+      deleteWorkspace(workspace.id);
+  };
+
+  return (
+    <div className="relative">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className={`flex items-center gap-1.5 p-1.5 rounded-lg text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors ${isOpen ? 'bg-slate-800 text-blue-400' : ''}`}
+            title="Workspaces"
+        >
+            <LayoutDashboard size={16} />
+            {activeName && <span className="text-xs font-medium max-w-28 truncate">{activeName}</span>}
+        </button>
+        {isOpen && (
+            <>
+                <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+                <div className="absolute right-0 top-full mt-1 z-30 w-64 py-1 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl shadow-black/50 animate-in fade-in zoom-in-95 duration-100 text-xs">
+                    <div className="px-3 py-1 text-[10px] font-bold uppercase tracking-widest text-slate-500">Workspaces</div>
+                    {workspaces.length === 0 && (
+                        <div className="px-3 py-1.5 text-slate-500">No saved workspaces yet</div>
+                    )}
+                    {workspaces.map(workspace => (
+                        <div key={workspace.id} className="group flex items-center hover:bg-slate-700 transition-colors">
+                            <button
+                                onClick={() => { setIsOpen(false); onSwitch(workspace); }}
+                                className={`flex-1 min-w-0 px-3 py-1.5 text-left truncate hover:text-blue-300 ${workspace.name === activeName ? 'text-blue-400' : 'text-slate-300'}`}
+                                title={`Saved ${new Date(workspace.savedAt).toLocaleString()}`}
+                            >
+                                {workspace.name}
+                            </button>
+                            <button
+                                onClick={() => handleDelete(workspace)}
+                                className="p-1 mr-1.5 rounded text-slate-500 opacity-0 group-hover:opacity-100 hover:text-rose-400 transition-all"
+                                title="Delete workspace"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="my-1 border-t border-slate-700" />
+                    <form onSubmit={handleSave} className="flex items-center gap-1.5 px-3 py-1.5">
+                        <input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Save current as..."
+                            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!name.trim()}
+                            className="p-1.5 rounded-md text-slate-400 hover:text-blue-400 hover:bg-slate-700 transition-colors disabled:opacity-30"
+                            title="Save workspace"
+                        >
+                            <Save size={14} />
+                        </button>
+                    </form>
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
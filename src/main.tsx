@@ -2,6 +2,15 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { setBookmarkProvider } from './utils/bookmarkService'
+import { createMemoryProvider } from './utils/memoryProvider'
+import { enableMemoryStorage } from './utils/storage'
+
+// `?provider=memory` runs the UI against a throwaway in-memory tree, even inside the extension
+if (new URLSearchParams(window.location.search).get('provider') === 'memory') {
+  setBookmarkProvider(createMemoryProvider())
+  enableMemoryStorage()
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
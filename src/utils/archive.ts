@@ -0,0 +1,306 @@
+import { isMemoryStorage, readStorage, subscribeStorage, writeStorage } from './storage';
+
+// Offline copies of bookmarked pages. The HTML is far too big for chrome.storage,
+// so archives live in IndexedDB: one store with the listing data and one with the pages.
+
+export interface ArchiveMeta {
+  bookmarkId: string;
+  url: string;
+  title: string;
+  capturedAt: number;
+  // Bytes of the stored HTML
+  size: number;
+  includesImages: boolean;
+  status?: number;
+  finalUrl?: string;
+}
+
+export interface ArchiveSettings {
+  includeImages: boolean;
+}
+
+export interface ArchiveProgress {
+  done: number;
+  total: number;
+  failed: { id: string; title: string; error: string }[];
+}
+
+// What the service worker sends back for a `fetchResource` message.
+interface ResourceResponse {
+  url: string;
+  status?: number;
+  finalUrl?: string;
+  contentType?: string;
+  text?: string;
+  dataUrl?: string;
+  error?: string;
+}
+
+const DB_NAME = 'twin-marks-archive';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const PAGE_STORE = 'pages';
+const SETTINGS_KEY = 'archiveSettings';
+
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_STYLESHEET_BYTES = 2 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const MAX_IMAGES = 60;
+const ARCHIVE_CONCURRENCY = 3;
+
+export const DEFAULT_ARCHIVE_SETTINGS: ArchiveSettings = { includeImages: false };
+
+export const getArchiveSettings = () => readStorage<ArchiveSettings>(SETTINGS_KEY, DEFAULT_ARCHIVE_SETTINGS);
+
+export const setArchiveSettings = (settings: ArchiveSettings) => writeStorage(SETTINGS_KEY, settings);
+
+export const subscribeArchiveSettings = (listener: () => void) => subscribeStorage(SETTINGS_KEY, listener);
+
+// --- IndexedDB -------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    // The in-memory tree gets an empty database of its own, so pruning never reaches real archives
+    const request = indexedDB.open(isMemoryStorage() ? `${DB_NAME}-memory` : DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const meta = db.createObjectStore(META_STORE, { keyPath: 'bookmarkId' });
+      meta.createIndex('url', 'url');
+      db.createObjectStore(PAGE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async (mode: IDBTransactionMode, work: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, PAGE_STORE], mode);
+  work(tx);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const listeners = new Set<() => void>();
+
+export const subscribeArchives = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const listArchives = async (): Promise<ArchiveMeta[]> => {
+  const db = await openDb();
+  const all = await promisify<ArchiveMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  return all.sort((a, b) => b.capturedAt - a.capturedAt);
+};
+
+// The newest archive of `url`, whichever bookmark it was taken for
+export const findArchiveByUrl = async (url: string): Promise<ArchiveMeta | null> => {
+  const db = await openDb();
+  const matches = await promisify<ArchiveMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).index('url').getAll(url));
+  return matches.sort((a, b) => b.capturedAt - a.capturedAt)[0] ?? null;
+};
+
+export const getArchivedHtml = async (bookmarkId: string): Promise<string | null> => {
+  const db = await openDb();
+  const html = await promisify<string | undefined>(db.transaction(PAGE_STORE).objectStore(PAGE_STORE).get(bookmarkId));
+  return html ?? null;
+};
+
+// Archiving a bookmark again replaces its previous copy.
+const saveArchive = async (meta: ArchiveMeta, html: string) => {
+  await runTransaction('readwrite', (tx) => {
+    tx.objectStore(META_STORE).put(meta);
+    tx.objectStore(PAGE_STORE).put(html, meta.bookmarkId);
+  });
+  notify();
+};
+
+export const deleteArchives = async (bookmarkIds: string[]): Promise<void> => {
+  if (bookmarkIds.length === 0) return;
+  await runTransaction('readwrite', (tx) => {
+    for (const id of bookmarkIds) {
+      tx.objectStore(META_STORE).delete(id);
+      tx.objectStore(PAGE_STORE).delete(id);
+    }
+  });
+  notify();
+};
+
+// Deletes archives captured before `cutoff` and returns how many went.
+export const pruneArchives = async (cutoff: number): Promise<number> => {
+  const stale = (await listArchives()).filter(archive => archive.capturedAt < cutoff);
+  await deleteArchives(stale.map(archive => archive.bookmarkId));
+  return stale.length;
+};
+
+// --- Capture ---------------------------------------------------------------
+
+// Pages are fetched by the service worker, which is not bound by CORS. Archives
+// are keyed by bookmark id, so the in-memory tree would overwrite real ones.
+export const canArchive = () => typeof chrome !== 'undefined' && !!chrome.runtime?.id && !isMemoryStorage();
+
+const fetchResource = async (url: string, as: 'text' | 'dataUrl', maxBytes: number): Promise<ResourceResponse> => {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'fetchResource', url, as, maxBytes });
+    if (response) return response as ResourceResponse;
+  } catch (err) {
+    console.error('fetchResource message failed:', err);
+  }
+  return { url, error: 'Service worker did not respond' };
+};
+
+const resolveUrl = (value: string, baseUrl: string) => {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return null;
+  }
+};
+
+// Relative url(...) references in an inlined stylesheet must point where they did from the sheet's own URL
+const absolutizeCss = (css: string, sheetUrl: string) =>
+  css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, quote: string, value: string) => {
+    if (/^(data:|#)/i.test(value)) return match;
+    const absolute = resolveUrl(value, sheetUrl);
+    return absolute ? `url(${quote}${absolute}${quote})` : match;
+  });
+
+const runPool = async <T>(items: T[], concurrency: number, work: (item: T) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await work(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+};
+
+/**
+ * Fetches `url` and turns it into a self-contained, script-free HTML document:
+ * stylesheets are inlined and, when `includeImages` is set, images become data URLs.
+ * Everything else keeps pointing at the live site through a <base> element.
+ */
+export const capturePage = async (url: string, includeImages: boolean) => {
+  const page = await fetchResource(url, 'text', MAX_PAGE_BYTES);
+  if (page.error) throw new Error(page.error);
+  if (page.status !== undefined && page.status >= 400) throw new Error(`HTTP ${page.status}`);
+  if (!/html/i.test(page.contentType ?? '') || page.text === undefined) throw new Error('Not an HTML page');
+
+  const baseUrl = page.finalUrl || url;
+  const doc = new DOMParser().parseFromString(page.text, 'text/html');
+
+  doc.querySelectorAll('script, noscript, iframe, frame, object, embed, base, meta[http-equiv], link[rel~="preload"], link[rel~="modulepreload"], link[rel~="prefetch"], link[rel="manifest"]')
+    .forEach(el => el.remove());
+  doc.querySelectorAll('*').forEach((el) => {
+    for (const attr of Array.from(el.attributes)) {
+      if (/^on/i.test(attr.name) || /^\s*javascript:/i.test(attr.value)) el.removeAttribute(attr.name);
+    }
+  });
+
+  const stylesheets = Array.from(doc.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]'));
+  await runPool(stylesheets, 4, async (link) => {
+    const href = resolveUrl(link.getAttribute('href')!, baseUrl);
+    if (!href) return;
+    const sheet = await fetchResource(href, 'text', MAX_STYLESHEET_BYTES);
+    if (sheet.text === undefined || sheet.error) {
+      link.setAttribute('href', href);
+      return;
+    }
+    const style = doc.createElement('style');
+    const media = link.getAttribute('media');
+    if (media) style.setAttribute('media', media);
+    style.textContent = absolutizeCss(sheet.text, sheet.finalUrl || href);
+    link.replaceWith(style);
+  });
+
+  if (includeImages) {
+    doc.querySelectorAll('picture source').forEach(el => el.remove());
+    const images = Array.from(doc.querySelectorAll<HTMLImageElement>('img[src]')).slice(0, MAX_IMAGES);
+    await runPool(images, 4, async (img) => {
+      const src = resolveUrl(img.getAttribute('src')!, baseUrl);
+      if (!src || src.startsWith('data:')) return;
+      const image = await fetchResource(src, 'dataUrl', MAX_IMAGE_BYTES);
+      if (!image.dataUrl) return;
+      img.setAttribute('src', image.dataUrl);
+      img.removeAttribute('srcset');
+      img.removeAttribute('loading');
+    });
+  }
+
+  const base = doc.createElement('base');
+  base.setAttribute('href', baseUrl);
+  base.setAttribute('target', '_blank');
+  const charset = doc.createElement('meta');
+  charset.setAttribute('charset', 'utf-8');
+  doc.head.prepend(charset, base);
+
+  return {
+    html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+    status: page.status,
+    finalUrl: page.finalUrl,
+  };
+};
+
+export const archiveBookmark = async (bookmark: { id: string; url: string; title: string }, includeImages: boolean): Promise<ArchiveMeta> => {
+  const captured = await capturePage(bookmark.url, includeImages);
+  const meta: ArchiveMeta = {
+    bookmarkId: bookmark.id,
+    url: bookmark.url,
+    title: bookmark.title,
+    capturedAt: Date.now(),
+    size: new Blob([captured.html]).size,
+    includesImages: includeImages,
+    status: captured.status,
+    finalUrl: captured.finalUrl !== bookmark.url ? captured.finalUrl : undefined,
+  };
+  await saveArchive(meta, captured.html);
+  return meta;
+};
+
+/**
+ * Archives several bookmarks with a few captures in flight, using the saved
+ * image setting. `onProgress` fires after every page, failed or not.
+ */
+export const archiveBookmarks = async (
+  bookmarks: { id: string; url: string; title: string }[],
+  onProgress?: (progress: ArchiveProgress) => void,
+): Promise<ArchiveProgress> => {
+  const { includeImages } = await getArchiveSettings();
+  const progress: ArchiveProgress = { done: 0, total: bookmarks.length, failed: [] };
+  await runPool(bookmarks, ARCHIVE_CONCURRENCY, async (bookmark) => {
+    try {
+      await archiveBookmark(bookmark, includeImages);
+    } catch (err) {
+      progress.failed.push({ id: bookmark.id, title: bookmark.title, error: err instanceof Error ? err.message : String(err) });
+    }
+    progress.done++;
+    onProgress?.({ ...progress, failed: [...progress.failed] });
+  });
+  return progress;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
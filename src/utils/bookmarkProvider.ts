@@ -0,0 +1,42 @@
+import type { BookmarkNode } from './bookmarkService';
+
+export interface BookmarkDestination {
+  parentId: string;
+  index?: number;
+}
+
+export interface CreateDetails extends BookmarkDestination {
+  title: string;
+  url?: string;
+}
+
+// Mirrors the payloads of chrome.bookmarks.onCreated / onRemoved / onChanged / onMoved,
+// plus onChildrenReordered (sort by name) and onImportBegan / onImportEnded.
+export type BookmarkEvent =
+  | { type: 'created'; id: string; node: BookmarkNode }
+  | { type: 'removed'; id: string; parentId: string; index: number; node: BookmarkNode }
+  | { type: 'changed'; id: string; title: string; url?: string }
+  | { type: 'moved'; id: string; parentId: string; index: number; oldParentId: string; oldIndex: number }
+  | { type: 'reordered'; id: string; childIds: string[] }
+  | { type: 'importBegan' }
+  | { type: 'importEnded' };
+
+/**
+ * The storage behind bookmarkService. Implementations follow chrome.bookmarks
+ * semantics, including its move index quirk, and report failures by logging and
+ * resolving null rather than rejecting.
+ */
+export interface BookmarkProvider {
+  readonly name: string;
+  getTree(): Promise<BookmarkNode[]>;
+  // The node with all of its descendants
+  getSubTree(id: string): Promise<BookmarkNode | null>;
+  // The node without children
+  get(id: string): Promise<BookmarkNode | null>;
+  create(details: CreateDetails): Promise<BookmarkNode | null>;
+  move(id: string, destination: BookmarkDestination): Promise<BookmarkNode | null>;
+  update(id: string, changes: { title?: string; url?: string }): Promise<BookmarkNode | null>;
+  removeTree(id: string): Promise<boolean>;
+  search(query: string): Promise<BookmarkNode[]>;
+  subscribe(listener: (event: BookmarkEvent) => void): () => void;
+}
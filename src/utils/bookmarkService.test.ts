@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  copyBookmark,
+  createBookmark,
+  getBookmark,
+  getSubTree,
+  moveBookmark,
+  removeBookmark,
+  restoreFromTrash,
+  searchBookmarks,
+  setBookmarkProvider,
+  subscribeBookmarks,
+  updateBookmark,
+} from './bookmarkService';
+import type { BookmarkEvent } from './bookmarkProvider';
+import { createMemoryProvider } from './memoryProvider';
+import { getAllMetadata, setNote, setTags } from './metadata';
+import { getTrashEntries } from './trash';
+
+// The sample tree: Bookmarks Bar (1) holds Google (10), GitHub (11) and Dev (12),
+// which holds React (120) and Vite (121); Other Bookmarks (2) holds News (20).
+
+const childIds = async (folderId: string) => (await getSubTree(folderId)).map(node => node.id);
+
+// Events are delivered in a microtask, like chrome.bookmarks events
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  setBookmarkProvider(createMemoryProvider());
+  localStorage.clear();
+  // Rejected calls are logged, as Chrome's would be
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createBookmark', () => {
+  it('adds a bookmark at the end of the folder', async () => {
+    const created = await createBookmark({ parentId: '1', title: 'MDN', url: 'https://developer.mozilla.org' });
+    expect(created).toMatchObject({ parentId: '1', index: 3, title: 'MDN', url: 'https://developer.mozilla.org' });
+    expect(await childIds('1')).toEqual(['10', '11', '12', created!.id]);
+  });
+
+  it('inserts at the given index', async () => {
+    const created = await createBookmark({ parentId: '1', index: 1, title: 'MDN', url: 'https://developer.mozilla.org' });
+    expect(await childIds('1')).toEqual(['10', created!.id, '11', '12']);
+  });
+
+  it('creates a folder when no URL is given', async () => {
+    const folder = await createBookmark({ parentId: '2', title: 'Reading' });
+    expect(folder?.url).toBeUndefined();
+    const child = await createBookmark({ parentId: folder!.id, title: 'MDN', url: 'https://developer.mozilla.org' });
+    expect(child?.parentId).toBe(folder!.id);
+  });
+
+  it('rejects an index past the end', async () => {
+    expect(await createBookmark({ parentId: '1', index: 4, title: 'MDN', url: 'https://developer.mozilla.org' })).toBeNull();
+  });
+});
+
+describe('moveBookmark', () => {
+  it('moves into another folder', async () => {
+    await moveBookmark('10', { parentId: '2', index: 0 });
+    expect(await childIds('1')).toEqual(['11', '12']);
+    expect(await childIds('2')).toEqual(['10', '20']);
+    expect(await getBookmark('10')).toMatchObject({ parentId: '2', index: 0 });
+  });
+
+  it('counts the index before the node leaves its folder', async () => {
+    // Index 2 is the slot in front of Dev while Google is still in place
+    await moveBookmark('10', { parentId: '1', index: 2 });
+    expect(await childIds('1')).toEqual(['11', '10', '12']);
+  });
+
+  it('moves to the end of the same folder with an index of its length', async () => {
+    await moveBookmark('10', { parentId: '1', index: 3 });
+    expect(await childIds('1')).toEqual(['11', '12', '10']);
+  });
+
+  it('moves backwards in the same folder without adjusting the index', async () => {
+    await moveBookmark('12', { parentId: '1', index: 0 });
+    expect(await childIds('1')).toEqual(['12', '10', '11']);
+  });
+
+  it('appends when no index is given', async () => {
+    await moveBookmark('20', { parentId: '12' });
+    expect(await childIds('12')).toEqual(['120', '121', '20']);
+  });
+
+  it('refuses to move a folder into itself or a descendant', async () => {
+    const inner = await createBookmark({ parentId: '12', title: 'Inner' });
+    await moveBookmark('12', { parentId: '12' });
+    await moveBookmark('12', { parentId: inner!.id });
+    expect(await getBookmark('12')).toMatchObject({ parentId: '1', index: 2 });
+  });
+});
+
+describe('updateBookmark', () => {
+  it('changes the title and the URL', async () => {
+    await updateBookmark('10', { title: 'Search', url: 'https://www.google.com/search' });
+    expect(await getBookmark('10')).toMatchObject({ title: 'Search', url: 'https://www.google.com/search' });
+  });
+
+  it('leaves fields that are not given alone', async () => {
+    await updateBookmark('10', { title: 'Search' });
+    expect(await getBookmark('10')).toMatchObject({ title: 'Search', url: 'https://www.google.com' });
+  });
+
+  it('renames folders', async () => {
+    await updateBookmark('12', { title: 'Development' });
+    expect((await getBookmark('12'))?.title).toBe('Development');
+  });
+});
+
+describe('removeBookmark', () => {
+  it('removes a folder with everything inside it', async () => {
+    await removeBookmark('12');
+    expect(await childIds('1')).toEqual(['10', '11']);
+    expect(await getBookmark('12')).toBeNull();
+    expect(await getBookmark('120')).toBeNull();
+  });
+
+  it('parks the subtree in the trash so it can be restored', async () => {
+    await removeBookmark('12');
+    const [entry] = await getTrashEntries();
+    expect(entry).toMatchObject({ parentId: '1', index: 2 });
+    expect(entry.node.children?.map(child => child.title)).toEqual(['React', 'Vite']);
+
+    const restored = await restoreFromTrash(entry.id);
+    expect(restored).toMatchObject({ parentId: '1', index: 2, title: 'Dev' });
+    expect((await getSubTree(restored!.id)).map(node => node.title)).toEqual(['React', 'Vite']);
+    expect(await getTrashEntries()).toEqual([]);
+  });
+
+  it('keeps a trash entry for each of several removals made together', async () => {
+    await Promise.all([removeBookmark('10'), removeBookmark('11'), removeBookmark('20')]);
+    expect((await getTrashEntries()).map(entry => entry.node.title).sort()).toEqual(['GitHub', 'Google', 'News']);
+  });
+
+  it('keeps tags and notes with the trash entry and restores them', async () => {
+    await setTags('120', ['docs']);
+    await setNote('121', 'build tool');
+    await removeBookmark('12');
+    const [entry] = await getTrashEntries();
+    const restored = await restoreFromTrash(entry.id);
+    const [react, vite] = await getSubTree(restored!.id);
+    const metadata = await getAllMetadata();
+    expect(metadata[react.id]?.tags).toEqual(['docs']);
+    expect(metadata[vite.id]?.note).toBe('build tool');
+  });
+});
+
+describe('copyBookmark', () => {
+  it('copies a folder with its contents, tags and notes', async () => {
+    await setTags('121', ['build']);
+    const copy = await copyBookmark('12', { parentId: '2' });
+    const children = await getSubTree(copy!.id);
+    expect(children.map(node => node.title)).toEqual(['React', 'Vite']);
+    expect((await getAllMetadata())[children[1].id]?.tags).toEqual(['build']);
+    expect(await childIds('12')).toEqual(['120', '121']);
+  });
+});
+
+describe('searchBookmarks', () => {
+  it('matches every word against titles and URLs, ignoring case', async () => {
+    expect((await searchBookmarks('git')).map(node => node.id)).toEqual(['11']);
+    expect((await searchBookmarks('REACT dev')).map(node => node.id)).toEqual(['120']);
+    expect((await searchBookmarks('https com')).map(node => node.id).sort()).toEqual(['10', '11', '20']);
+  });
+
+  it('finds folders by title', async () => {
+    expect((await searchBookmarks('Bookmarks Bar')).map(node => node.id)).toEqual(['1']);
+  });
+
+  it('returns nothing for an empty query', async () => {
+    expect(await searchBookmarks('  ')).toEqual([]);
+  });
+
+  it('sees changes right away', async () => {
+    await updateBookmark('20', { title: 'Hacker News' });
+    expect((await searchBookmarks('hacker')).map(node => node.id)).toEqual(['20']);
+  });
+});
+
+describe('subscribeBookmarks', () => {
+  it('reports every change after the call that caused it', async () => {
+    const events: BookmarkEvent[] = [];
+    subscribeBookmarks(event => events.push(event));
+
+    const created = await createBookmark({ parentId: '2', title: 'MDN', url: 'https://developer.mozilla.org' });
+    await updateBookmark(created!.id, { title: 'MDN Web Docs' });
+    await moveBookmark(created!.id, { parentId: '1', index: 0 });
+    await removeBookmark(created!.id);
+    await settle();
+
+    expect(events).toEqual([
+      { type: 'created', id: created!.id, node: expect.objectContaining({ parentId: '2', index: 1, title: 'MDN' }) },
+      { type: 'changed', id: created!.id, title: 'MDN Web Docs', url: 'https://developer.mozilla.org' },
+      { type: 'moved', id: created!.id, parentId: '1', index: 0, oldParentId: '2', oldIndex: 1 },
+      { type: 'removed', id: created!.id, parentId: '1', index: 0, node: expect.objectContaining({ title: 'MDN Web Docs' }) },
+    ]);
+  });
+
+  it('reports the final index of a move within the same folder', async () => {
+    const events: BookmarkEvent[] = [];
+    subscribeBookmarks(event => events.push(event));
+    await moveBookmark('10', { parentId: '1', index: 2 });
+    await settle();
+    expect(events).toEqual([{ type: 'moved', id: '10', parentId: '1', index: 1, oldParentId: '1', oldIndex: 0 }]);
+  });
+
+  it('stops after unsubscribing and stays quiet for rejected calls', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeBookmarks(listener);
+    await updateBookmark('1', { title: 'Toolbar' });
+    await settle();
+    unsubscribe();
+    await updateBookmark('10', { title: 'Search' });
+    await settle();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('fixed roots and folder rules', () => {
+  it('cannot create directly under the root', async () => {
+    expect(await createBookmark({ parentId: '0', title: 'Top' })).toBeNull();
+    expect(await childIds('0')).toEqual(['1', '2']);
+  });
+
+  it('cannot move, rename or remove the top-level folders', async () => {
+    await moveBookmark('2', { parentId: '1' });
+    await updateBookmark('1', { title: 'Toolbar' });
+    await removeBookmark('2');
+    expect(await childIds('0')).toEqual(['1', '2']);
+    expect((await getBookmark('1'))?.title).toBe('Bookmarks Bar');
+    expect(await getTrashEntries()).toEqual([]);
+  });
+
+  it('cannot move anything into the root', async () => {
+    await moveBookmark('10', { parentId: '0' });
+    expect(await getBookmark('10')).toMatchObject({ parentId: '1', index: 0 });
+  });
+
+  it('cannot add children to a bookmark', async () => {
+    expect(await createBookmark({ parentId: '10', title: 'Child', url: 'https://example.com' })).toBeNull();
+    await moveBookmark('11', { parentId: '10' });
+    expect(await getBookmark('11')).toMatchObject({ parentId: '1', index: 1 });
+  });
+
+  it('cannot give a folder a URL', async () => {
+    await updateBookmark('12', { url: 'https://example.com' });
+    expect((await getBookmark('12'))?.url).toBeUndefined();
+  });
+});
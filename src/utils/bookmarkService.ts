@@ -1,3 +1,11 @@
+import { recordOperation } from './journal';
+import type { BookmarkFields, JournalBatch } from './journal';
+import { addTrashEntry, getTrashEntry, purgeTrashEntries } from './trash';
+import { carryMetadata, collectMetadata, getAllMetadata } from './metadata';
+import type { BookmarkDestination, BookmarkEvent, BookmarkProvider, CreateDetails } from './bookmarkProvider';
+import { createChromeProvider, isChromeBookmarksAvailable } from './chromeProvider';
+import { createMemoryProvider } from './memoryProvider';
+
 export interface BookmarkNode {
   id: string;
   parentId?: string;
@@ -9,165 +17,155 @@ export interface BookmarkNode {
   children?: BookmarkNode[];
 }
 
-const MOCK_BOOKMARKS: BookmarkNode = {
-  id: '0',
-  title: 'Root',
-  children: [
-    {
-      id: '1',
-      parentId: '0',
-      title: 'Bookmarks Bar',
-      children: [
-        { id: '10', parentId: '1', title: 'Google', url: 'https://www.google.com' },
-        { id: '11', parentId: '1', title: 'GitHub', url: 'https://github.com' },
-        {
-          id: '12',
-          parentId: '1',
-          title: 'Dev',
-          children: [
-            { id: '120', parentId: '12', title: 'React', url: 'https://react.dev' },
-            { id: '121', parentId: '12', title: 'Vite', url: 'https://vitejs.dev' },
-          ]
-        }
-      ]
-    },
-    {
-      id: '2',
-      parentId: '0',
-      title: 'Other Bookmarks',
-      children: [
-        { id: '20', parentId: '2', title: 'News', url: 'https://news.ycombinator.com' },
-      ]
-    }
-  ]
+let provider: BookmarkProvider = isChromeBookmarksAvailable() ? createChromeProvider() : createMemoryProvider();
+
+export const getBookmarkProvider = () => provider;
+
+// Swaps the backend, e.g. to the in-memory one. Call before anything subscribes.
+export const setBookmarkProvider = (next: BookmarkProvider) => {
+    provider = next;
 };
 
+// Fires for every created, removed, changed or moved bookmark, whoever made the change.
+export const subscribeBookmarks = (listener: (event: BookmarkEvent) => void) => provider.subscribe(listener);
+
 export const getTree = async (): Promise<BookmarkNode[]> => {
-    if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-        return new Promise((resolve) => {
-            chrome.bookmarks.getTree((results) => {
-                 if (chrome.runtime.lastError) {
-                    console.error("getTree error:", chrome.runtime.lastError);
-                    resolve([]);
-                    return;
-                 }
-                 resolve(results);
-            });
-        });
-    }
-    return Promise.resolve([MOCK_BOOKMARKS]);
+    return provider.getTree();
 };
 
 export const getSubTree = async (id: string): Promise<BookmarkNode[]> => {
-  if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-    return new Promise((resolve) => {
-      chrome.bookmarks.getSubTree(id, (results) => {
-        if (chrome.runtime.lastError) {
-            console.warn(`getSubTree failed for id ${id}:`, chrome.runtime.lastError);
-            resolve([]);
-            return;
-        }
-        if (results && results.length > 0) {
-           resolve(results[0].children || []);
-        } else {
-           resolve([]);
-        }
-      });
-    });
-  } else {
-    // Mock implementation
-    const findNode = (node: BookmarkNode, targetId: string): BookmarkNode | null => {
-      if (node.id === targetId) return node;
-      if (node.children) {
-        for (const child of node.children) {
-          const found = findNode(child, targetId);
-          if (found) return found;
-        }
-      }
-      return null;
-    };
-    const root = MOCK_BOOKMARKS;
-    const target = findNode(root, id);
-    return Promise.resolve(target?.children || []);
-  }
+    const node = await provider.getSubTree(id);
+    return node?.children || [];
 };
 
 export const getBookmark = async (id: string): Promise<BookmarkNode | null> => {
-  if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-    return new Promise((resolve) => {
-      chrome.bookmarks.get(id, (results) => {
-        if (chrome.runtime.lastError) {
-          console.warn(`getBookmark failed for id ${id}:`, chrome.runtime.lastError);
-          resolve(null);
-          return;
-        }
-        if (results && results.length > 0) {
-          resolve(results[0]);
-        } else {
-          resolve(null);
+    return provider.get(id);
+}
+
+const getNodeTree = async (id: string): Promise<BookmarkNode | null> => {
+    return provider.getSubTree(id);
+}
+
+// What createTree made: the new tree, and the new id of every source node that
+// was created. Children whose create failed are missing from both.
+export interface CreatedTree {
+    node: BookmarkNode;
+    ids: Map<string, string>;
+}
+
+const createNodeTree = async (node: BookmarkNode, destination: BookmarkDestination, ids = new Map<string, string>()): Promise<CreatedTree | null> => {
+    const created = await provider.create({ ...destination, title: node.title, url: node.url });
+    if (!created) return null;
+    ids.set(node.id, created.id);
+    if (!node.url && node.children) {
+        created.children = [];
+        for (const child of node.children) {
+            const createdChild = await createNodeTree(child, { parentId: created.id }, ids);
+            if (createdChild) created.children.push(createdChild.node);
         }
-      });
-    });
-  }
-  return Promise.resolve(null);
+    }
+    return { node: created, ids };
 }
 
-export const checkLink = async (url: string): Promise<{ status: number | 'error'; ok: boolean }> => {
-  try {
-    const response = await fetch(url, { method: 'HEAD', mode: 'no-cors' });
-    return { status: response.status || 0, ok: response.type === 'opaque' || response.ok };
-  } catch (error) {
-    return { status: 'error', ok: false };
-  }
-};
+// Mutations take an optional journal batch; without one each becomes its own undo step.
+export const createBookmark = async (details: CreateDetails, batch?: JournalBatch): Promise<BookmarkNode | null> => {
+    const created = await provider.create(details);
+    if (created) {
+        recordOperation({ type: 'create', node: created, at: { parentId: created.parentId!, index: created.index ?? 0 } }, batch);
+    }
+    return created;
+}
 
-export const moveBookmark = async (id: string, destination: { parentId: string, index?: number }): Promise<void> => {
-    if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-        return new Promise((resolve) => {
-            chrome.bookmarks.move(id, destination, () => {
-                if (chrome.runtime.lastError) {
-                    console.error("Move error", chrome.runtime.lastError);
-                }
-                resolve();
-            });
-        });
+// Recreates `node` and all of its descendants under `destination`.
+// The returned tree carries the newly assigned ids.
+export const createTree = async (node: BookmarkNode, destination: BookmarkDestination, batch?: JournalBatch): Promise<CreatedTree | null> => {
+    const created = await createNodeTree(node, destination);
+    if (created) {
+        const root = created.node;
+        recordOperation({ type: 'create', node: root, at: { parentId: root.parentId!, index: root.index ?? 0 } }, batch);
     }
+    return created;
 }
 
-export const removeBookmark = async (id: string): Promise<void> => {
-    if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-         return new Promise((resolve) => {
-             chrome.bookmarks.removeTree(id, () => {
-                if(chrome.runtime.lastError) {
-                     chrome.bookmarks.remove(id, () => resolve());
-                } else {
-                    resolve();
-                }
-             });
-         });
+// Copies bookmark `id` (with its whole subtree for folders) to `destination`.
+// Tags and notes are copied along.
+export const copyBookmark = async (id: string, destination: BookmarkDestination, batch?: JournalBatch): Promise<BookmarkNode | null> => {
+    const node = await getNodeTree(id);
+    if (!node) return null;
+    const created = await createTree(node, destination, batch);
+    if (!created) return null;
+    await carryMetadata(created.ids, await getAllMetadata());
+    return created.node;
+}
+
+export const moveBookmark = async (id: string, destination: BookmarkDestination, batch?: JournalBatch): Promise<void> => {
+    const before = await provider.get(id);
+    const moved = await provider.move(id, destination);
+    if (before?.parentId && moved?.parentId) {
+        recordOperation({
+            type: 'move',
+            id,
+            from: { parentId: before.parentId, index: before.index ?? 0 },
+            to: { parentId: moved.parentId, index: moved.index ?? 0 },
+        }, batch);
     }
 }
 
-export const updateBookmark = async (id: string, changes: { title?: string, url?: string }): Promise<void> => {
-    if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-        return new Promise((resolve) => {
-            chrome.bookmarks.update(id, changes, () => resolve());
-        });
+export const removeBookmark = async (id: string, batch?: JournalBatch): Promise<void> => {
+    const node = await getNodeTree(id);
+    if (!node?.parentId) return;
+    // Keep a serialized copy so the delete can be restored from the trash.
+    // Tags and notes go with it; the service worker forgets them once the bookmark is gone.
+    const metadata = collectMetadata(node, await getAllMetadata());
+    const entry = await addTrashEntry(node, { parentId: node.parentId, index: node.index ?? 0 }, Object.keys(metadata).length > 0 ? metadata : undefined);
+    if (await provider.removeTree(id)) {
+        recordOperation({ type: 'remove', node, from: { parentId: node.parentId, index: node.index ?? 0 } }, batch);
+    } else {
+        await purgeTrashEntries([entry.id]);
     }
 }
 
-export const searchBookmarks = async (query: string): Promise<BookmarkNode[]> => {
-    if (typeof chrome !== 'undefined' && chrome.bookmarks) {
-        return new Promise((resolve) => {
-            chrome.bookmarks.search(query, (results) => {
-                if (chrome.runtime.lastError) {
-                    console.error("Search error", chrome.runtime.lastError);
-                    resolve([]);
-                    return;
-                }
-                resolve(results);
-            });
-        });
+/**
+ * Recreates a trashed subtree, either at its original location or under `destination`.
+ * Falls back to the first root folder when the original parent no longer exists.
+ */
+export const restoreFromTrash = async (entryId: string, destination?: BookmarkDestination, batch?: JournalBatch): Promise<BookmarkNode | null> => {
+    const entry = await getTrashEntry(entryId);
+    if (!entry) return null;
+
+    let target = destination;
+    if (!target) {
+        const parent = await getBookmark(entry.parentId);
+        if (parent) {
+            const siblings = await getSubTree(parent.id);
+            target = { parentId: parent.id, index: Math.min(entry.index, siblings.length) };
+        } else {
+            const tree = await getTree();
+            const fallback = tree[0]?.children?.[0];
+            if (!fallback) return null;
+            target = { parentId: fallback.id };
+        }
+    }
+
+    const created = await createTree(entry.node, target, batch);
+    if (!created) return null;
+    if (entry.metadata) await carryMetadata(created.ids, entry.metadata);
+    await purgeTrashEntries([entry.id]);
+    return created.node;
+}
+
+export const updateBookmark = async (id: string, changes: { title?: string, url?: string }, batch?: JournalBatch): Promise<void> => {
+    const before = await provider.get(id);
+    const after = await provider.update(id, changes);
+    if (before && after) {
+        const previous: BookmarkFields = { title: before.title, url: before.url };
+        const next: BookmarkFields = { title: after.title, url: after.url };
+        if (previous.title !== next.title || previous.url !== next.url) {
+            recordOperation({ type: 'update', id, before: previous, after: next }, batch);
+        }
     }
-    return Promise.resolve([]);
-}
\ No newline at end of file
+}
+
+export const searchBookmarks = async (query: string): Promise<BookmarkNode[]> => {
+    return provider.search(query);
+}
@@ -0,0 +1,257 @@
+import { getTree, subscribeBookmarks } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import type { BookmarkEvent } from './bookmarkProvider';
+import { isBatchRunning } from './journal';
+
+export interface BookmarkStoreSnapshot {
+  // null until the first load has finished
+  roots: BookmarkNode[] | null;
+  // Every node of `roots` by id, children included
+  nodes: ReadonlyMap<string, BookmarkNode>;
+}
+
+// A node without its children; the tree itself lives in `childIds`
+interface StoreEntry {
+  id: string;
+  parentId?: string;
+  title: string;
+  url?: string;
+  dateAdded?: number;
+  dateGroupModified?: number;
+  // Undefined for bookmarks
+  childIds?: string[];
+}
+
+// Events arriving within this window are applied together
+const FLUSH_DELAY_MS = 50;
+
+const entries = new Map<string, StoreEntry>();
+let rootIds: string[] = [];
+let pendingEvents: BookmarkEvent[] = [];
+// Ids whose node object must be rebuilt, always together with their ancestors
+const dirtyIds = new Set<string>();
+const listeners = new Set<() => void>();
+
+let snapshot: BookmarkStoreSnapshot = { roots: null, nodes: new Map() };
+let started = false;
+let loading = false;
+let reloadAfterLoad = false;
+// Between onImportBegan and onImportEnded; the import is picked up by one reload at the end
+let importing = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const toEntry = (node: BookmarkNode): StoreEntry => ({
+  id: node.id,
+  parentId: node.parentId,
+  title: node.title,
+  url: node.url,
+  dateAdded: node.dateAdded,
+  dateGroupModified: node.dateGroupModified,
+  childIds: node.url ? undefined : [],
+});
+
+const addSubtree = (node: BookmarkNode) => {
+  const entry = toEntry(node);
+  entries.set(node.id, entry);
+  for (const child of node.children ?? []) {
+    entry.childIds?.push(child.id);
+    addSubtree({ ...child, parentId: node.id });
+  }
+};
+
+const removeSubtree = (id: string) => {
+  const entry = entries.get(id);
+  if (!entry) return;
+  entries.delete(id);
+  entry.childIds?.forEach(removeSubtree);
+};
+
+const markDirty = (id: string | undefined) => {
+  for (let entry = id ? entries.get(id) : undefined; entry && !dirtyIds.has(entry.id); entry = entry.parentId ? entries.get(entry.parentId) : undefined) {
+    dirtyIds.add(entry.id);
+  }
+};
+
+// Every child's index shifts when a folder's order changes
+const markChildrenChanged = (parent: StoreEntry) => {
+  parent.dateGroupModified = Date.now();
+  parent.childIds?.forEach(childId => dirtyIds.add(childId));
+  markDirty(parent.id);
+};
+
+const detach = (id: string, parentId: string) => {
+  const parent = entries.get(parentId);
+  if (!parent?.childIds) return;
+  parent.childIds = parent.childIds.filter(childId => childId !== id);
+  markChildrenChanged(parent);
+};
+
+/**
+ * Patches the entries with one chrome.bookmarks event. Returns false when the
+ * event does not fit what the store holds, in which case it reloads everything.
+ */
+const applyEvent = (event: BookmarkEvent): boolean => {
+  switch (event.type) {
+    case 'created': {
+      const parent = event.node.parentId ? entries.get(event.node.parentId) : undefined;
+      if (!parent?.childIds || entries.has(event.id)) return false;
+      addSubtree(event.node);
+      parent.childIds = [...parent.childIds];
+      parent.childIds.splice(event.node.index ?? parent.childIds.length, 0, event.id);
+      markChildrenChanged(parent);
+      return true;
+    }
+    case 'removed': {
+      if (!entries.has(event.id)) return false;
+      detach(event.id, event.parentId);
+      removeSubtree(event.id);
+      return true;
+    }
+    case 'changed': {
+      const entry = entries.get(event.id);
+      if (!entry) return false;
+      entry.title = event.title;
+      if (entry.url !== undefined) entry.url = event.url;
+      markDirty(event.id);
+      return true;
+    }
+    case 'moved': {
+      const entry = entries.get(event.id);
+      const parent = entries.get(event.parentId);
+      if (!entry || !parent?.childIds) return false;
+      detach(event.id, event.oldParentId);
+      entry.parentId = event.parentId;
+      parent.childIds = [...parent.childIds];
+      parent.childIds.splice(event.index, 0, event.id);
+      markChildrenChanged(parent);
+      return true;
+    }
+    case 'reordered': {
+      const parent = entries.get(event.id);
+      if (!parent?.childIds || parent.childIds.length !== event.childIds.length) return false;
+      const known = new Set(parent.childIds);
+      if (!event.childIds.every(childId => known.has(childId))) return false;
+      parent.childIds = [...event.childIds];
+      markChildrenChanged(parent);
+      return true;
+    }
+    // Handled as they arrive, see handleEvent
+    case 'importBegan':
+    case 'importEnded':
+      return true;
+  }
+};
+
+// Rebuilds the dirty nodes; everything else keeps its object so memoized views stay valid
+const buildSnapshot = (full: boolean) => {
+  const nodes = full ? new Map<string, BookmarkNode>() : new Map(snapshot.nodes);
+  const build = (id: string, index?: number): BookmarkNode => {
+    const existing = nodes.get(id);
+    if (existing && !full && !dirtyIds.has(id)) return existing;
+    const { childIds, ...fields } = entries.get(id)!;
+    const node: BookmarkNode = { ...fields, index };
+    if (childIds) node.children = childIds.map((childId, i) => build(childId, i));
+    nodes.set(id, node);
+    return node;
+  };
+  const roots = rootIds.map(id => build(id));
+  // Drop removed nodes
+  for (const id of nodes.keys()) {
+    if (!entries.has(id)) nodes.delete(id);
+  }
+  dirtyIds.clear();
+  snapshot = { roots, nodes };
+  listeners.forEach(listener => listener());
+};
+
+const load = async () => {
+  loading = true;
+  reloadAfterLoad = false;
+  // Anything queued so far is already part of the tree being fetched
+  pendingEvents = [];
+  const tree = await getTree();
+  loading = false;
+  if (reloadAfterLoad) {
+    load();
+    return;
+  }
+  entries.clear();
+  tree.forEach(addSubtree);
+  rootIds = tree.map(root => root.id);
+  buildSnapshot(true);
+};
+
+const flush = () => {
+  flushTimer = null;
+  // Bulk operations would otherwise repaint both panes once per item
+  if (isBatchRunning()) {
+    scheduleFlush();
+    return;
+  }
+  const events = pendingEvents;
+  pendingEvents = [];
+  if (events.length === 0) return;
+  if (!events.every(applyEvent)) {
+    load();
+    return;
+  }
+  buildSnapshot(false);
+};
+
+const scheduleFlush = () => {
+  flushTimer ??= setTimeout(flush, FLUSH_DELAY_MS);
+};
+
+const handleEvent = (event: BookmarkEvent) => {
+  // An import fires one event per bookmark; patching each would stall the panes
+  if (event.type === 'importBegan') {
+    importing = true;
+    pendingEvents = [];
+    return;
+  }
+  if (event.type === 'importEnded') {
+    importing = false;
+    if (loading) reloadAfterLoad = true;
+    else load();
+    return;
+  }
+  if (importing) return;
+  // The tree being fetched may or may not contain this change
+  if (loading) {
+    reloadAfterLoad = true;
+    return;
+  }
+  pendingEvents.push(event);
+  scheduleFlush();
+};
+
+/**
+ * The app-wide copy of the bookmark tree. It is loaded once when the first view
+ * subscribes and then kept current by applying change events as patches, so
+ * every pane reads the same nodes instead of refetching on each change.
+ */
+export const subscribeBookmarkStore = (listener: () => void) => {
+  listeners.add(listener);
+  if (!started) {
+    started = true;
+    subscribeBookmarks(handleEvent);
+    load();
+  }
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getBookmarkStoreSnapshot = () => snapshot;
+
+// The contents of folder `id`, or an empty list while loading or when it no longer exists
+export const getStoredChildren = (store: BookmarkStoreSnapshot, id: string): BookmarkNode[] => store.nodes.get(id)?.children ?? [];
+
+// The folders from the top level down to `id`, excluding the nameless root
+export const getStoredPath = (store: BookmarkStoreSnapshot, id: string): BookmarkNode[] => {
+  const path: BookmarkNode[] = [];
+  for (let node = store.nodes.get(id); node && node.parentId; node = store.nodes.get(node.parentId)) {
+    path.unshift(node);
+  }
+  return path;
+};
@@ -0,0 +1,86 @@
+import type { BookmarkNode } from './bookmarkService';
+import type { BookmarkEvent, BookmarkProvider } from './bookmarkProvider';
+
+export const isChromeBookmarksAvailable = () => typeof chrome !== 'undefined' && !!chrome.bookmarks;
+
+// Wraps a callback-style chrome.bookmarks call; errors are logged and resolve to `fallback`.
+const call = <T>(label: string, fallback: T, invoke: (callback: (result: T) => void) => void): Promise<T> => {
+  return new Promise((resolve) => {
+    invoke((result) => {
+      if (chrome.runtime.lastError) {
+        console.error(`${label} error:`, chrome.runtime.lastError);
+        resolve(fallback);
+        return;
+      }
+      resolve(result);
+    });
+  });
+};
+
+export const createChromeProvider = (): BookmarkProvider => ({
+  name: 'chrome',
+
+  getTree: () => call<BookmarkNode[]>('getTree', [], cb => chrome.bookmarks.getTree(cb)),
+
+  getSubTree: async (id) => {
+    const results = await call<BookmarkNode[]>(`getSubTree(${id})`, [], cb => chrome.bookmarks.getSubTree(id, cb));
+    return results[0] ?? null;
+  },
+
+  get: async (id) => {
+    const results = await call<BookmarkNode[]>(`get(${id})`, [], cb => chrome.bookmarks.get(id, cb));
+    return results[0] ?? null;
+  },
+
+  create: (details) => call<BookmarkNode | null>('create', null, cb => chrome.bookmarks.create(details, cb)),
+
+  move: (id, destination) => call<BookmarkNode | null>('move', null, cb => chrome.bookmarks.move(id, destination, cb)),
+
+  update: (id, changes) => call<BookmarkNode | null>('update', null, cb => chrome.bookmarks.update(id, changes, cb)),
+
+  removeTree: (id) => {
+    return new Promise((resolve) => {
+      chrome.bookmarks.removeTree(id, () => {
+        if (!chrome.runtime.lastError) {
+          resolve(true);
+          return;
+        }
+        // removeTree refuses plain bookmarks on some Chrome versions
+        chrome.bookmarks.remove(id, () => resolve(!chrome.runtime.lastError));
+      });
+    });
+  },
+
+  search: (query) => call<BookmarkNode[]>('search', [], cb => chrome.bookmarks.search(query, cb)),
+
+  subscribe: (listener) => {
+    const onCreated = (id: string, node: BookmarkNode) => listener({ type: 'created', id, node });
+    const onRemoved = (id: string, info: { parentId: string; index: number; node: BookmarkNode }) =>
+      listener({ type: 'removed', id, parentId: info.parentId, index: info.index, node: info.node });
+    const onChanged = (id: string, info: { title: string; url?: string }) =>
+      listener({ type: 'changed', id, title: info.title, url: info.url });
+    const onMoved = (id: string, info: Omit<Extract<BookmarkEvent, { type: 'moved' }>, 'type' | 'id'>) =>
+      listener({ type: 'moved', id, ...info });
+    const onChildrenReordered = (id: string, info: { childIds: string[] }) =>
+      listener({ type: 'reordered', id, childIds: info.childIds });
+    const onImportBegan = () => listener({ type: 'importBegan' });
+    const onImportEnded = () => listener({ type: 'importEnded' });
+
+    chrome.bookmarks.onCreated.addListener(onCreated);
+    chrome.bookmarks.onRemoved.addListener(onRemoved);
+    chrome.bookmarks.onChanged.addListener(onChanged);
+    chrome.bookmarks.onMoved.addListener(onMoved);
+    chrome.bookmarks.onChildrenReordered.addListener(onChildrenReordered);
+    chrome.bookmarks.onImportBegan.addListener(onImportBegan);
+    chrome.bookmarks.onImportEnded.addListener(onImportEnded);
+    return () => {
+      chrome.bookmarks.onCreated.removeListener(onCreated);
+      chrome.bookmarks.onRemoved.removeListener(onRemoved);
+      chrome.bookmarks.onChanged.removeListener(onChanged);
+      chrome.bookmarks.onMoved.removeListener(onMoved);
+      chrome.bookmarks.onChildrenReordered.removeListener(onChildrenReordered);
+      chrome.bookmarks.onImportBegan.removeListener(onImportBegan);
+      chrome.bookmarks.onImportEnded.removeListener(onImportEnded);
+    };
+  },
+});
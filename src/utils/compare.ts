@@ -0,0 +1,133 @@
+import { copyBookmark, removeBookmark, updateBookmark } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { runBatch } from './journal';
+import { normalizeUrl } from './urlNormalize';
+
+export type CompareStatus = 'left-only' | 'right-only' | 'title-differs' | 'same';
+
+// Paired folders are not "different" themselves but may hide differences below
+export type CompareMark = CompareStatus | 'changed';
+
+export interface CompareEntry {
+  status: CompareStatus;
+  left?: BookmarkNode;
+  right?: BookmarkNode;
+  // The paired folders this entry lives in, i.e. where a copy has to go
+  leftFolderId: string;
+  rightFolderId: string;
+  // Folder titles between the compared root and the entry
+  path: string[];
+}
+
+export interface FolderComparison {
+  entries: CompareEntry[];
+  marks: Record<string, CompareMark>;
+  counts: Record<Exclude<CompareStatus, 'same'>, number>;
+}
+
+export type SyncDirection = 'left-to-right' | 'right-to-left' | 'merge';
+
+// Bookmarks pair up by normalized URL, folders by title. Repeated keys pair in order.
+const itemKey = (node: BookmarkNode) => (node.url ? `url:${normalizeUrl(node.url)}` : `folder:${node.title.trim().toLowerCase()}`);
+
+const compareLevel = (
+  left: BookmarkNode,
+  right: BookmarkNode,
+  recursive: boolean,
+  path: string[],
+  entries: CompareEntry[],
+  marks: Record<string, CompareMark>,
+): boolean => {
+  const rightByKey = new Map<string, BookmarkNode[]>();
+  for (const node of right.children || []) {
+    const key = itemKey(node);
+    rightByKey.set(key, [...(rightByKey.get(key) || []), node]);
+  }
+
+  let hasDifferences = false;
+  const record = (entry: Omit<CompareEntry, 'leftFolderId' | 'rightFolderId' | 'path'>) => {
+    entries.push({ ...entry, leftFolderId: left.id, rightFolderId: right.id, path });
+    if (entry.status !== 'same') hasDifferences = true;
+  };
+
+  for (const node of left.children || []) {
+    const candidates = rightByKey.get(itemKey(node));
+    const match = candidates?.shift();
+    if (!match) {
+      record({ status: 'left-only', left: node });
+      marks[node.id] = 'left-only';
+      continue;
+    }
+
+    if (node.url) {
+      const status: CompareStatus = node.title.trim() === match.title.trim() ? 'same' : 'title-differs';
+      record({ status, left: node, right: match });
+      marks[node.id] = status;
+      marks[match.id] = status;
+    } else if (recursive) {
+      const changed = compareLevel(node, match, true, [...path, node.title], entries, marks);
+      marks[node.id] = changed ? 'changed' : 'same';
+      marks[match.id] = marks[node.id];
+      if (changed) hasDifferences = true;
+    } else {
+      marks[node.id] = 'same';
+      marks[match.id] = 'same';
+    }
+  }
+
+  for (const remaining of rightByKey.values()) {
+    for (const node of remaining) {
+      record({ status: 'right-only', right: node });
+      marks[node.id] = 'right-only';
+    }
+  }
+  return hasDifferences;
+};
+
+export const compareFolders = (left: BookmarkNode, right: BookmarkNode, recursive: boolean): FolderComparison => {
+  const entries: CompareEntry[] = [];
+  const marks: Record<string, CompareMark> = {};
+  compareLevel(left, right, recursive, [], entries, marks);
+  const count = (status: CompareStatus) => entries.filter(entry => entry.status === status).length;
+  return {
+    entries,
+    marks,
+    counts: { 'left-only': count('left-only'), 'right-only': count('right-only'), 'title-differs': count('title-differs') },
+  };
+};
+
+// The number of bookmark operations a sync would perform, for confirmations.
+export const countSyncChanges = (comparison: FolderComparison, direction: SyncDirection) => {
+  const { counts } = comparison;
+  if (direction === 'merge') return counts['left-only'] + counts['right-only'];
+  return counts['left-only'] + counts['right-only'] + counts['title-differs'];
+};
+
+/**
+ * Mirroring makes the target side an exact copy of the source: missing items are
+ * copied over, extra ones go to the trash and differing titles are overwritten.
+ * Merging only copies what each side is missing. Either way it is one undo step.
+ */
+export const syncFolders = async (comparison: FolderComparison, direction: SyncDirection): Promise<void> => {
+  const label = direction === 'merge' ? 'Merge panes' : direction === 'left-to-right' ? 'Mirror left to right' : 'Mirror right to left';
+  await runBatch(label, async (batch) => {
+    for (const entry of comparison.entries) {
+      if (entry.status === 'left-only') {
+        if (direction === 'right-to-left') {
+          await removeBookmark(entry.left!.id, batch);
+        } else {
+          await copyBookmark(entry.left!.id, { parentId: entry.rightFolderId }, batch);
+        }
+      } else if (entry.status === 'right-only') {
+        if (direction === 'left-to-right') {
+          await removeBookmark(entry.right!.id, batch);
+        } else {
+          await copyBookmark(entry.right!.id, { parentId: entry.leftFolderId }, batch);
+        }
+      } else if (entry.status === 'title-differs' && direction !== 'merge') {
+        const [source, target] = direction === 'left-to-right' ? [entry.left!, entry.right!] : [entry.right!, entry.left!];
+        await updateBookmark(target.id, { title: source.title }, batch);
+      }
+    }
+  });
+};
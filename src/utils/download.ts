@@ -0,0 +1,13 @@
+// Saves `content` through a temporary object URL, which works both in the extension page and in `vite dev`.
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/plain') => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Replaces characters that are not allowed in file names on common platforms.
+export const toFileName = (title: string) => title.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'bookmarks';
@@ -0,0 +1,139 @@
+import type React from 'react';
+import { copyBookmark, createBookmark, getBookmark, getSubTree, moveBookmark, restoreFromTrash } from './bookmarkService';
+import type { BookmarkDestination } from './bookmarkProvider';
+import { getBookmarkStoreSnapshot, getStoredPath } from './bookmarkStore';
+import { runBatch } from './journal';
+import type { JournalBatch } from './journal';
+
+export interface DraggedBookmark {
+  id: string;
+  parentId?: string;
+}
+
+// Everything that can be dragged onto a folder carries this JSON payload.
+export interface BookmarkDragPayload {
+  // Bookmarks and folders in the order they were listed
+  items?: DraggedBookmark[];
+  trashEntryId?: string;
+  // An open browser tab; dropping it bookmarks the page
+  tab?: { title: string; url: string };
+}
+
+// Where dropped items land inside the folder: before `beforeId`, or at the end when null
+export interface DropPosition {
+  beforeId: string | null;
+}
+
+const DRAG_MIME_TYPE = 'application/json';
+
+// The payload of the drag in progress; dataTransfer only reveals it on drop
+let activeDrag: BookmarkDragPayload | null = null;
+
+export const setDragPayload = (e: React.DragEvent, payload: BookmarkDragPayload, effect: DataTransfer['effectAllowed'] = 'copyMove') => {
+  e.dataTransfer.setData(DRAG_MIME_TYPE, JSON.stringify(payload));
+  e.dataTransfer.effectAllowed = effect;
+  activeDrag = payload;
+};
+
+export const clearDragPayload = () => {
+  activeDrag = null;
+};
+
+// Replaces the browser's ghost image with a badge such as "12 items"
+export const setDragBadge = (e: React.DragEvent, label: string) => {
+  const badge = document.createElement('div');
+  badge.textContent = label;
+  badge.className = 'fixed -top-20 left-0 px-2 py-1 rounded-md bg-blue-600 text-white text-xs font-bold shadow-lg';
+  document.body.appendChild(badge);
+  e.dataTransfer.setDragImage(badge, -8, -8);
+  // The image is captured synchronously, so the element can go right away
+  setTimeout(() => badge.remove());
+};
+
+export const readDragPayload = (e: React.DragEvent): BookmarkDragPayload | null => {
+  const data = e.dataTransfer.getData(DRAG_MIME_TYPE);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as BookmarkDragPayload;
+  } catch {
+    return null;
+  }
+};
+
+// Ctrl (or Alt on macOS) turns a drag into a copy, like in a file manager
+export const isCopyDrag = (e: React.DragEvent) => e.ctrlKey || e.altKey;
+
+// A folder cannot go into itself or anything below it
+const isInsideDragged = (items: DraggedBookmark[], folderId: string) => {
+  const draggedIds = new Set(items.map(item => item.id));
+  return draggedIds.has(folderId) || getStoredPath(getBookmarkStoreSnapshot(), folderId).some(node => draggedIds.has(node.id));
+};
+
+export const canDropInto = (payload: BookmarkDragPayload | null, folderId: string) => !payload?.items || !isInsideDragged(payload.items, folderId);
+
+/**
+ * Accepts the drag over a drop target. With `folderId`, drags that would put a
+ * folder inside itself are refused with a no-drop cursor; propagation stops so
+ * an enclosing target cannot accept them instead. Returns whether it accepted.
+ */
+export const allowDrop = (e: React.DragEvent, folderId?: string): boolean => {
+  e.preventDefault();
+  if (folderId && !canDropInto(activeDrag, folderId)) {
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'none';
+    return false;
+  }
+  e.dataTransfer.dropEffect = isCopyDrag(e) ? 'copy' : 'move';
+  return true;
+};
+
+/**
+ * Applies a drop onto folder `folderId`: restores trash entries, bookmarks open
+ * tabs, copies when requested and otherwise moves, keeping the dragged order.
+ * Without a `position` items are appended and dropping an item onto its own
+ * parent is a no-op. Drops that would put a folder inside itself are ignored.
+ */
+export const dropIntoFolder = async (payload: BookmarkDragPayload, folderId: string, copy: boolean, position?: DropPosition): Promise<void> => {
+  const items = payload.items ?? [];
+  const draggedIds = new Set(items.map(item => item.id));
+  let beforeId = position?.beforeId ?? null;
+  // Dropping next to a dragged item anchors on the first sibling that stays put
+  if (beforeId && draggedIds.has(beforeId)) {
+    const siblings = await getSubTree(folderId);
+    beforeId = siblings.slice(siblings.findIndex(node => node.id === beforeId)).find(node => !draggedIds.has(node.id))?.id ?? null;
+  }
+
+  // Looked up for every item, since each one inserted ahead of the anchor shifts it
+  const destination = async (): Promise<BookmarkDestination> => {
+    const anchor = beforeId ? await getBookmark(beforeId) : null;
+    return anchor?.parentId === folderId ? { parentId: folderId, index: anchor.index } : { parentId: folderId };
+  };
+
+  if (payload.trashEntryId) {
+    await restoreFromTrash(payload.trashEntryId, await destination());
+    return;
+  }
+  if (payload.tab) {
+    await createBookmark({ ...(await destination()), title: payload.tab.title, url: payload.tab.url });
+    return;
+  }
+  if (items.length === 0 || isInsideDragged(items, folderId)) return;
+
+  // A dragged folder already carries the dragged items below it
+  const path = (id: string) => getStoredPath(getBookmarkStoreSnapshot(), id).slice(0, -1);
+  const targets = items.filter(item => !path(item.id).some(node => draggedIds.has(node.id)));
+  const apply = async (batch?: JournalBatch) => {
+    for (const item of targets) {
+      if (copy) {
+        await copyBookmark(item.id, await destination(), batch);
+      } else if (position || item.parentId !== folderId) {
+        await moveBookmark(item.id, await destination(), batch);
+      }
+    }
+  };
+  if (targets.length > 1) {
+    await runBatch(`${copy ? 'Copy' : 'Move'} ${targets.length} items`, apply);
+  } else {
+    await apply();
+  }
+};
@@ -0,0 +1,32 @@
+import type { BookmarkNode } from './bookmarkService';
+import { flattenTree } from './treeUtils';
+import type { FlatBookmark } from './treeUtils';
+import { normalizeUrl } from './urlNormalize';
+
+export interface DuplicateGroup {
+  key: string;
+  items: FlatBookmark[];
+}
+
+// Groups bookmarks whose URLs normalize to the same key, largest groups first.
+export const findDuplicates = (roots: BookmarkNode[]): DuplicateGroup[] => {
+  const groups = new Map<string, FlatBookmark[]>();
+  for (const item of flattenTree(roots)) {
+    if (!item.node.url) continue;
+    const key = normalizeUrl(item.node.url);
+    const bucket = groups.get(key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .filter(([, items]) => items.length > 1)
+    .map(([key, items]) => ({
+      key,
+      items: [...items].sort((a, b) => (a.node.dateAdded ?? 0) - (b.node.dateAdded ?? 0)),
+    }))
+    .sort((a, b) => b.items.length - a.items.length || a.key.localeCompare(b.key));
+};
@@ -0,0 +1,119 @@
+import { updateBookmark } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { runBatch } from './journal';
+import type { FlatBookmark } from './treeUtils';
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  // Regex mode lets `replace` refer to groups as $1, $<name> and $&
+  regex: boolean;
+  caseSensitive: boolean;
+  inTitles: boolean;
+  inUrls: boolean;
+}
+
+// A piece of the old value: unchanged, or a match and the text that replaces it
+export type DiffPart =
+  | { type: 'same'; text: string }
+  | { type: 'change'; removed: string; added: string };
+
+export interface FieldChange {
+  before: string;
+  after: string;
+  parts: DiffPart[];
+}
+
+export interface ReplaceChange {
+  node: BookmarkNode;
+  path: string[];
+  title?: FieldChange;
+  url?: FieldChange;
+  // Set when the new URL would not parse; such changes are never applied
+  invalidUrl?: boolean;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The pattern for `options`, always global so every occurrence is replaced, or
+ * an error message when the regex does not compile.
+ */
+export const compileFind = (options: FindReplaceOptions): { pattern: RegExp | null; error: string | null } => {
+  if (!options.find) return { pattern: null, error: null };
+  const flags = options.caseSensitive ? 'g' : 'gi';
+  try {
+    return { pattern: new RegExp(options.regex ? options.find : escapeRegex(options.find), flags), error: null };
+  } catch (err) {
+    return { pattern: null, error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// Same tokens as String.prototype.replace, minus the rarely used $` and $'
+const expandTemplate = (template: string, match: RegExpExecArray) => {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const index = Number(key);
+    return index > 0 && index < match.length ? match[index] ?? '' : token;
+  });
+};
+
+const replaceWithDiff = (value: string, pattern: RegExp, options: FindReplaceOptions): FieldChange | null => {
+  const parts: DiffPart[] = [];
+  let after = '';
+  let last = 0;
+  for (const match of value.matchAll(pattern)) {
+    const added = options.regex ? expandTemplate(options.replace, match) : options.replace;
+    if (match.index > last) parts.push({ type: 'same', text: value.slice(last, match.index) });
+    parts.push({ type: 'change', removed: match[0], added });
+    after += value.slice(last, match.index) + added;
+    last = match.index + match[0].length;
+  }
+  if (last < value.length) parts.push({ type: 'same', text: value.slice(last) });
+  after += value.slice(last);
+  // Also covers no match at all
+  return after === value ? null : { before: value, after, parts };
+};
+
+const isValidUrl = (url: string) => {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The root and the top-level folders ("Bookmarks Bar"...) cannot be renamed
+const isFixed = (node: BookmarkNode) => !node.parentId || node.parentId === '0';
+
+export const previewReplace = (items: FlatBookmark[], pattern: RegExp, options: FindReplaceOptions): ReplaceChange[] => {
+  const changes: ReplaceChange[] = [];
+  for (const { node, path } of items) {
+    if (isFixed(node)) continue;
+    const title = options.inTitles ? replaceWithDiff(node.title, pattern, options) : null;
+    const url = options.inUrls && node.url ? replaceWithDiff(node.url, pattern, options) : null;
+    if (!title && !url) continue;
+    changes.push({
+      node,
+      path,
+      title: title ?? undefined,
+      url: url ?? undefined,
+      invalidUrl: url ? !isValidUrl(url.after) : undefined,
+    });
+  }
+  return changes;
+};
+
+// Applies `changes` through updateBookmark as one undoable step
+export const applyReplace = async (changes: ReplaceChange[]): Promise<void> => {
+  const valid = changes.filter(change => !change.invalidUrl);
+  if (valid.length === 0) return;
+  await runBatch(`Replace in ${valid.length} items`, async (batch) => {
+    for (const change of valid) {
+      await updateBookmark(change.node.id, { title: change.title?.after, url: change.url?.after }, batch);
+    }
+  });
+};
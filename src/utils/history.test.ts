@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The journal is module state, so every test gets fresh modules
+let service: typeof import('./bookmarkService');
+let journal: typeof import('./journal');
+let history: typeof import('./history');
+
+const titles = async (folderId: string) => (await service.getSubTree(folderId)).map(node => node.title);
+
+beforeEach(async () => {
+  vi.resetModules();
+  service = await import('./bookmarkService');
+  journal = await import('./journal');
+  history = await import('./history');
+  const { createMemoryProvider } = await import('./memoryProvider');
+  service.setBookmarkProvider(createMemoryProvider());
+  localStorage.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('runBatch', () => {
+  it('keeps a mutation made while another action runs out of its step', async () => {
+    const bulk = journal.runBatch('Add 2 bookmarks', async (batch) => {
+      await service.createBookmark({ parentId: '2', title: 'A', url: 'https://a.example' }, batch);
+      await service.createBookmark({ parentId: '2', title: 'B', url: 'https://b.example' }, batch);
+    });
+    await service.updateBookmark('10', { title: 'Search' });
+    await bulk;
+
+    expect(journal.getJournalSnapshot().undoLabel).toBe('Add 2 bookmarks');
+    await history.undo();
+    expect(await titles('2')).toEqual(['News']);
+    expect(journal.getJournalSnapshot().undoLabel).toBe('Edit');
+    await history.undo();
+    expect(await titles('1')).toEqual(['Google', 'GitHub', 'Dev']);
+  });
+});
+
+describe('undo', () => {
+  it('records mutations made while an entry is being replayed', async () => {
+    await service.createBookmark({ parentId: '2', title: 'A', url: 'https://a.example' });
+    const undoing = history.undo();
+    await service.updateBookmark('10', { title: 'Search' });
+    await undoing;
+
+    expect(journal.getJournalSnapshot()).toMatchObject({ undoLabel: 'Edit', redoLabel: 'Create' });
+  });
+
+  it('keeps the operations it could not undo on the undo stack', async () => {
+    await journal.runBatch('Add 2 bookmarks', async (batch) => {
+      await service.createBookmark({ parentId: '2', title: 'A', url: 'https://a.example' }, batch);
+      await service.createBookmark({ parentId: '2', title: 'B', url: 'https://b.example' }, batch);
+    });
+    const provider = service.getBookmarkProvider();
+    const removeTree = provider.removeTree;
+    provider.removeTree = vi.fn(removeTree).mockImplementationOnce(removeTree).mockRejectedValueOnce(new Error('offline'));
+
+    await expect(history.undo()).rejects.toThrow('Could not undo "Add 2 bookmarks": offline');
+    expect(await titles('2')).toEqual(['News', 'A']);
+
+    provider.removeTree = removeTree;
+    await history.undo();
+    expect(await titles('2')).toEqual(['News']);
+    await history.redo();
+    await history.redo();
+    expect(await titles('2')).toEqual(['News', 'A', 'B']);
+  });
+});
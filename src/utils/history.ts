@@ -0,0 +1,146 @@
+import { createTree, getBookmark, moveBookmark, removeBookmark, updateBookmark } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import {
+  aliasId,
+  pushRedoEntry,
+  pushUndoEntry,
+  resolveId,
+  takeRedoEntry,
+  takeUndoEntry,
+} from './journal';
+import type { BookmarkLocation, JournalBatch, JournalEntry, JournalOperation } from './journal';
+import { discardTrashEntryForNode } from './trash';
+import { carryMetadata, setNote, setTags } from './metadata';
+
+let busy = false;
+
+// chrome.bookmarks.move counts the index before the node is taken out of its
+// parent, so moving forward inside the same folder needs one extra slot.
+const moveTo = async (id: string, location: BookmarkLocation, batch: JournalBatch) => {
+  const current = await getBookmark(id);
+  const parentId = resolveId(location.parentId);
+  let index = location.index;
+  if (current && current.parentId === parentId && (current.index ?? 0) < index) {
+    index += 1;
+  }
+  await moveBookmark(id, { parentId, index }, batch);
+};
+
+const recreate = async (node: BookmarkNode, location: BookmarkLocation, batch: JournalBatch) => {
+  const created = await createTree(node, { parentId: resolveId(location.parentId), index: location.index }, batch);
+  created?.ids.forEach((newId, oldId) => aliasId(oldId, newId));
+  return created;
+};
+
+const applyInverse = async (operation: JournalOperation, batch: JournalBatch) => {
+  switch (operation.type) {
+    case 'move':
+      await moveTo(resolveId(operation.id), operation.from, batch);
+      break;
+    case 'update':
+      await updateBookmark(resolveId(operation.id), operation.before, batch);
+      break;
+    case 'remove': {
+      // The delete also parked a copy in the trash; it is live again, so drop that copy
+      const trashedId = resolveId(operation.node.id);
+      const created = await recreate(operation.node, operation.from, batch);
+      const entry = await discardTrashEntryForNode(trashedId);
+      // Tags and notes were parked with the trash entry when the bookmark was removed
+      if (created && entry?.metadata) await carryMetadata(created.ids, entry.metadata);
+      break;
+    }
+    case 'create':
+      await removeBookmark(resolveId(operation.node.id), batch);
+      break;
+    case 'tags':
+      await setTags(resolveId(operation.id), operation.before, batch);
+      break;
+    case 'note':
+      await setNote(resolveId(operation.id), operation.before, batch);
+      break;
+  }
+};
+
+const applyForward = async (operation: JournalOperation, batch: JournalBatch) => {
+  switch (operation.type) {
+    case 'move':
+      await moveTo(resolveId(operation.id), operation.to, batch);
+      break;
+    case 'update':
+      await updateBookmark(resolveId(operation.id), operation.after, batch);
+      break;
+    case 'remove':
+      await removeBookmark(resolveId(operation.node.id), batch);
+      break;
+    case 'create': {
+      // Undoing the create parked the node in the trash; it is live again, so drop that copy
+      const trashedId = resolveId(operation.node.id);
+      await recreate(operation.node, operation.at, batch);
+      await discardTrashEntryForNode(trashedId);
+      break;
+    }
+    case 'tags':
+      await setTags(resolveId(operation.id), operation.after, batch);
+      break;
+    case 'note':
+      await setNote(resolveId(operation.id), operation.after, batch);
+      break;
+  }
+};
+
+/**
+ * Applies the operations of `entry` in replay order and stops at the first one
+ * that fails. Returns how many went through, and the error if one stopped it.
+ */
+const replay = async (entry: JournalEntry, direction: 'undo' | 'redo'): Promise<{ done: number; error?: unknown }> => {
+  const operations = direction === 'undo' ? [...entry.operations].reverse() : entry.operations;
+  // Replaying is not a new step, so what it records goes nowhere
+  const batch: JournalBatch = { operations: [] };
+  let done = 0;
+  try {
+    for (const operation of operations) {
+      await (direction === 'undo' ? applyInverse(operation, batch) : applyForward(operation, batch));
+      done++;
+    }
+    return { done };
+  } catch (error) {
+    console.error(`Failed to ${direction} "${entry.label}"`, error);
+    return { done, error };
+  }
+};
+
+const failure = (direction: 'undo' | 'redo', entry: JournalEntry, error: unknown) =>
+  new Error(`Could not ${direction} "${entry.label}": ${error instanceof Error ? error.message : String(error)}`);
+
+// Only the operations that were undone move to the redo stack; the rest stay undoable.
+// Rejects when an operation failed, so the caller can tell the user.
+export const undo = async (): Promise<void> => {
+  if (busy) return;
+  const entry = takeUndoEntry();
+  if (!entry) return;
+  busy = true;
+  try {
+    const { done, error } = await replay(entry, 'undo');
+    const remaining = entry.operations.length - done;
+    if (remaining > 0) pushUndoEntry({ ...entry, operations: entry.operations.slice(0, remaining) });
+    if (done > 0) pushRedoEntry({ ...entry, operations: entry.operations.slice(remaining) });
+    if (error) throw failure('undo', entry, error);
+  } finally {
+    busy = false;
+  }
+};
+
+export const redo = async (): Promise<void> => {
+  if (busy) return;
+  const entry = takeRedoEntry();
+  if (!entry) return;
+  busy = true;
+  try {
+    const { done, error } = await replay(entry, 'redo');
+    if (done < entry.operations.length) pushRedoEntry({ ...entry, operations: entry.operations.slice(done) });
+    if (done > 0) pushUndoEntry({ ...entry, operations: entry.operations.slice(0, done) });
+    if (error) throw failure('redo', entry, error);
+  } finally {
+    busy = false;
+  }
+};
@@ -0,0 +1,148 @@
+import type { BookmarkNode } from './bookmarkService';
+
+export interface BookmarkLocation {
+  parentId: string;
+  index: number;
+}
+
+export interface BookmarkFields {
+  title: string;
+  url?: string;
+}
+
+// Every mutation is stored together with enough state to invert it.
+export type JournalOperation =
+  | { type: 'move'; id: string; from: BookmarkLocation; to: BookmarkLocation }
+  | { type: 'update'; id: string; before: BookmarkFields; after: BookmarkFields }
+  | { type: 'remove'; node: BookmarkNode; from: BookmarkLocation }
+  | { type: 'create'; node: BookmarkNode; at: BookmarkLocation }
+  | { type: 'tags'; id: string; before: string[]; after: string[] }
+  | { type: 'note'; id: string; before: string; after: string };
+
+export interface JournalEntry {
+  label: string;
+  timestamp: number;
+  operations: JournalOperation[];
+}
+
+export interface JournalSnapshot {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const MAX_ENTRIES = 100;
+
+const OPERATION_LABELS: Record<JournalOperation['type'], string> = {
+  move: 'Move',
+  update: 'Edit',
+  remove: 'Delete',
+  create: 'Create',
+  tags: 'Tag',
+  note: 'Note',
+};
+
+const undoStack: JournalEntry[] = [];
+const redoStack: JournalEntry[] = [];
+const listeners = new Set<() => void>();
+
+// Ids of recreated bookmarks: Chrome never reuses an id, so restoring a removed
+// subtree gives every node a new one and older entries must be redirected.
+const idAliases = new Map<string, string>();
+
+/**
+ * One multi-item action being recorded. Mutations that are handed the batch add
+ * their operations to it instead of becoming steps of their own, so an edit made
+ * in the other pane while a bulk action runs still gets a step of its own.
+ */
+export interface JournalBatch {
+  operations: JournalOperation[];
+}
+
+let openBatches = 0;
+
+let snapshot: JournalSnapshot = { canUndo: false, canRedo: false, undoLabel: null, redoLabel: null };
+
+const notify = () => {
+  const undoTop = undoStack[undoStack.length - 1];
+  const redoTop = redoStack[redoStack.length - 1];
+  snapshot = {
+    canUndo: !!undoTop,
+    canRedo: !!redoTop,
+    undoLabel: undoTop?.label ?? null,
+    redoLabel: redoTop?.label ?? null,
+  };
+  listeners.forEach(listener => listener());
+};
+
+const pushEntry = (entry: JournalEntry) => {
+  undoStack.push(entry);
+  if (undoStack.length > MAX_ENTRIES) undoStack.shift();
+  redoStack.length = 0;
+  notify();
+};
+
+export const recordOperation = (operation: JournalOperation, batch?: JournalBatch) => {
+  if (batch) {
+    batch.operations.push(operation);
+    return;
+  }
+  pushEntry({ label: OPERATION_LABELS[operation.type], timestamp: Date.now(), operations: [operation] });
+};
+
+/**
+ * Runs `fn` with a fresh batch and records every mutation that `fn` passes the
+ * batch to as a single undoable step.
+ */
+export const runBatch = async <T>(label: string, fn: (batch: JournalBatch) => Promise<T>): Promise<T> => {
+  const batch: JournalBatch = { operations: [] };
+  openBatches++;
+  try {
+    return await fn(batch);
+  } finally {
+    openBatches--;
+    if (batch.operations.length > 0) {
+      pushEntry({ label, timestamp: Date.now(), operations: batch.operations });
+    }
+  }
+};
+
+export const isBatchRunning = () => openBatches > 0;
+
+export const takeUndoEntry = (): JournalEntry | undefined => undoStack.pop();
+
+export const takeRedoEntry = (): JournalEntry | undefined => redoStack.pop();
+
+export const pushUndoEntry = (entry: JournalEntry) => {
+  undoStack.push(entry);
+  notify();
+};
+
+export const pushRedoEntry = (entry: JournalEntry) => {
+  redoStack.push(entry);
+  notify();
+};
+
+export const aliasId = (oldId: string, newId: string) => {
+  if (oldId !== newId) idAliases.set(oldId, newId);
+};
+
+export const resolveId = (id: string): string => {
+  let current = id;
+  const seen = new Set<string>();
+  while (idAliases.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = idAliases.get(current)!;
+  }
+  return current;
+};
+
+export const subscribeJournal = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getJournalSnapshot = () => snapshot;
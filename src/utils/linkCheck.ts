@@ -0,0 +1,139 @@
+import { saveLinkResult } from './linkReport';
+import { isMemoryStorage } from './storage';
+
+// Link checks run in the service worker, which has host permissions and therefore
+// sees real status codes. Outside the extension only an opaque no-cors probe is possible.
+
+export type LinkState =
+  | 'ok'
+  | 'redirected'
+  | 'not-found'
+  | 'client-error'
+  | 'server-error'
+  | 'timeout'
+  | 'dns'
+  | 'network'
+  | 'invalid'
+  | 'unknown';
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+export interface LinkCheckResult {
+  url: string;
+  state: LinkState;
+  status?: number;
+  finalUrl?: string;
+  redirects?: RedirectHop[];
+  method?: 'HEAD' | 'GET';
+  error?: string;
+  checkedAt: number;
+  durationMs?: number;
+}
+
+export interface LinkCheckOptions {
+  timeoutMs?: number;
+  concurrency?: number;
+  // When set, the result is stored in the persisted link report for this bookmark
+  bookmarkId?: string;
+}
+
+export const DEFAULT_LINK_TIMEOUT_MS = 15000;
+export const DEFAULT_LINK_CONCURRENCY = 6;
+
+const DEAD_STATES: LinkState[] = ['not-found', 'client-error', 'server-error', 'timeout', 'dns', 'network', 'invalid'];
+
+export const isDeadLink = (result: LinkCheckResult) => DEAD_STATES.includes(result.state);
+
+export const describeLinkResult = (result: LinkCheckResult): string => {
+  const status = result.status ? ` ${result.status}` : '';
+  switch (result.state) {
+    case 'ok':
+      return `OK${status}`;
+    case 'redirected':
+      return `Redirected${status} → ${result.finalUrl}` +
+        (result.redirects && result.redirects.length > 1 ? ` (${result.redirects.length} hops)` : '');
+    case 'not-found':
+      return `Not found${status}`;
+    case 'client-error':
+      return `Client error${status}`;
+    case 'server-error':
+      return `Server error${status}`;
+    case 'timeout':
+      return `Timed out after ${Math.round((result.durationMs ?? 0) / 1000)}s`;
+    case 'dns':
+      return `DNS lookup failed${result.error ? ` (${result.error})` : ''}`;
+    case 'network':
+      return `Connection failed${result.error ? ` (${result.error})` : ''}`;
+    case 'invalid':
+      return 'Not an http(s) URL';
+    case 'unknown':
+      return 'Reachable, but the status is hidden outside the extension';
+  }
+};
+
+const canUseServiceWorker = () => typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+
+const probeFromPage = async (url: string, timeoutMs: number): Promise<LinkCheckResult> => {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', signal: controller.signal });
+    return { url, state: 'unknown', checkedAt: Date.now(), durationMs: Date.now() - startedAt };
+  } catch (err) {
+    const timedOut = err instanceof DOMException && err.name === 'AbortError';
+    return {
+      url,
+      state: timedOut ? 'timeout' : 'network',
+      error: timedOut ? undefined : String(err),
+      checkedAt: Date.now(),
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const checkLink = async (url: string, options: LinkCheckOptions = {}): Promise<LinkCheckResult> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LINK_TIMEOUT_MS;
+  if (!canUseServiceWorker()) {
+    const result = await probeFromPage(url, timeoutMs);
+    if (options.bookmarkId) await saveLinkResult(options.bookmarkId, result);
+    return result;
+  }
+  // The worker files results under Chrome ids, which the in-memory tree only borrows
+  const workerRecords = !isMemoryStorage();
+  try {
+    const result = await chrome.runtime.sendMessage({ type: 'checkLink', url, timeoutMs, bookmarkId: workerRecords ? options.bookmarkId : undefined });
+    if (result) {
+      if (!workerRecords && options.bookmarkId) await saveLinkResult(options.bookmarkId, result as LinkCheckResult);
+      return result as LinkCheckResult;
+    }
+  } catch (err) {
+    console.error('checkLink message failed:', err);
+  }
+  return { url, state: 'network', error: 'Service worker did not respond', checkedAt: Date.now() };
+};
+
+/**
+ * Checks many links with at most `concurrency` requests in flight.
+ * `onResult` fires as each one finishes, in completion order.
+ */
+export const checkLinks = async (
+  targets: { id: string; url: string }[],
+  onResult: (id: string, result: LinkCheckResult) => void,
+  options: LinkCheckOptions = {},
+): Promise<void> => {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_LINK_CONCURRENCY);
+  let next = 0;
+  const worker = async () => {
+    while (next < targets.length) {
+      const target = targets[next++];
+      onResult(target.id, await checkLink(target.url, { ...options, bookmarkId: target.id }));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, worker));
+};
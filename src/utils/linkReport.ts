@@ -0,0 +1,51 @@
+import type { LinkCheckResult } from './linkCheck';
+import { isMemoryStorage, readStorage, subscribeStorage, writeStorage } from './storage';
+
+// Persisted link health, written by the service worker (see public/service-worker.js)
+// after every check it runs, whether triggered by a pane or by the scheduled scan.
+
+export const DEAD_LINKS_FOLDER_ID = 'twin-marks:dead-links';
+
+const REPORT_KEY = 'linkReport';
+const SETTINGS_KEY = 'linkScanSettings';
+
+export interface LinkScanProgress {
+  done: number;
+  total: number;
+  startedAt: number;
+}
+
+export interface LinkReport {
+  results: Record<string, LinkCheckResult>;
+  lastScanAt?: number;
+  scan?: LinkScanProgress | null;
+}
+
+export interface LinkScanSettings {
+  // 0 disables the scheduled scan
+  intervalHours: number;
+}
+
+export const DEFAULT_LINK_SCAN_SETTINGS: LinkScanSettings = { intervalHours: 24 };
+
+export const getLinkReport = () => readStorage<LinkReport>(REPORT_KEY, { results: {} });
+
+export const subscribeLinkReport = (listener: () => void) => subscribeStorage(REPORT_KEY, listener);
+
+// Only used where the service worker does not record results: outside the
+// extension and on the in-memory tree.
+export const saveLinkResult = async (bookmarkId: string, result: LinkCheckResult) => {
+  const report = await getLinkReport();
+  await writeStorage(REPORT_KEY, { ...report, results: { ...report.results, [bookmarkId]: result } });
+};
+
+export const getLinkScanSettings = () => readStorage<LinkScanSettings>(SETTINGS_KEY, DEFAULT_LINK_SCAN_SETTINGS);
+
+export const setLinkScanSettings = (settings: LinkScanSettings) => writeStorage(SETTINGS_KEY, settings);
+
+// The scan covers the real tree, so it is off while the UI runs on the in-memory one
+export const startLinkScan = async () => {
+  if (typeof chrome !== 'undefined' && chrome.runtime?.id && !isMemoryStorage()) {
+    await chrome.runtime.sendMessage({ type: 'startLinkScan' });
+  }
+};
@@ -0,0 +1,231 @@
+import type { BookmarkNode } from './bookmarkService';
+import type { BookmarkDestination, BookmarkEvent, BookmarkProvider, CreateDetails } from './bookmarkProvider';
+
+// Sample tree for `vite dev`, shaped like a fresh Chrome profile.
+export const SAMPLE_BOOKMARKS: BookmarkNode = {
+  id: '0',
+  title: '',
+  children: [
+    {
+      id: '1',
+      title: 'Bookmarks Bar',
+      children: [
+        { id: '10', title: 'Google', url: 'https://www.google.com' },
+        { id: '11', title: 'GitHub', url: 'https://github.com' },
+        {
+          id: '12',
+          title: 'Dev',
+          children: [
+            { id: '120', title: 'React', url: 'https://react.dev' },
+            { id: '121', title: 'Vite', url: 'https://vitejs.dev' },
+          ],
+        },
+      ],
+    },
+    {
+      id: '2',
+      title: 'Other Bookmarks',
+      children: [
+        { id: '20', title: 'News', url: 'https://news.ycombinator.com' },
+      ],
+    },
+  ],
+};
+
+interface MemoryNode {
+  id: string;
+  parentId?: string;
+  title: string;
+  url?: string;
+  dateAdded: number;
+  dateGroupModified?: number;
+  // Child ids in order; undefined for bookmarks
+  children?: string[];
+}
+
+const ROOT_ID = '0';
+
+/**
+ * A complete chrome.bookmarks stand-in kept in memory. It enforces the same rules
+ * as Chrome: the root and its top-level folders are fixed, bookmarks cannot hold
+ * children, folders cannot get a URL, a folder cannot move into itself, and move
+ * indexes are counted before the node leaves its current parent.
+ */
+export const createMemoryProvider = (seed: BookmarkNode = SAMPLE_BOOKMARKS): BookmarkProvider => {
+  const nodes = new Map<string, MemoryNode>();
+  const listeners = new Set<(event: BookmarkEvent) => void>();
+  let nextId = 1;
+
+  const load = (node: BookmarkNode, parentId?: string) => {
+    const stored: MemoryNode = {
+      id: node.id,
+      parentId,
+      title: node.title,
+      url: node.url,
+      dateAdded: node.dateAdded ?? Date.now(),
+      dateGroupModified: node.url ? undefined : node.dateGroupModified,
+      children: node.url ? undefined : [],
+    };
+    nodes.set(node.id, stored);
+    nextId = Math.max(nextId, Number(node.id) + 1 || 0);
+    for (const child of node.children || []) {
+      stored.children!.push(child.id);
+      load(child, node.id);
+    }
+  };
+  load(seed);
+
+  const emit = (event: BookmarkEvent) => {
+    // chrome.bookmarks events arrive after the call that caused them has resolved
+    queueMicrotask(() => listeners.forEach(listener => listener(event)));
+  };
+
+  const fail = <T>(label: string, message: string, fallback: T): T => {
+    console.error(`${label} error:`, message);
+    return fallback;
+  };
+
+  const indexOf = (node: MemoryNode) => {
+    if (!node.parentId) return undefined;
+    return nodes.get(node.parentId)!.children!.indexOf(node.id);
+  };
+
+  const toNode = (id: string, deep: boolean): BookmarkNode => {
+    const node = nodes.get(id)!;
+    const result: BookmarkNode = { id: node.id, title: node.title, dateAdded: node.dateAdded };
+    if (node.parentId !== undefined) {
+      result.parentId = node.parentId;
+      result.index = indexOf(node);
+    }
+    if (node.url !== undefined) result.url = node.url;
+    if (node.dateGroupModified !== undefined) result.dateGroupModified = node.dateGroupModified;
+    if (deep && node.children) result.children = node.children.map(childId => toNode(childId, true));
+    return result;
+  };
+
+  const isFixed = (id: string) => id === ROOT_ID || nodes.get(id)?.parentId === ROOT_ID;
+
+  const isInside = (id: string, ancestorId: string): boolean => {
+    for (let current = nodes.get(id); current; current = current.parentId ? nodes.get(current.parentId) : undefined) {
+      if (current.id === ancestorId) return true;
+    }
+    return false;
+  };
+
+  const touch = (folderId: string) => {
+    nodes.get(folderId)!.dateGroupModified = Date.now();
+  };
+
+  const matchesQuery = (node: MemoryNode, words: string[]) => {
+    const haystack = `${node.title}\n${node.url ?? ''}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  };
+
+  return {
+    name: 'memory',
+
+    getTree: async () => [toNode(ROOT_ID, true)],
+
+    getSubTree: async (id) => (nodes.has(id) ? toNode(id, true) : fail(`getSubTree(${id})`, "Can't find bookmark for id.", null)),
+
+    get: async (id) => (nodes.has(id) ? toNode(id, false) : fail(`get(${id})`, "Can't find bookmark for id.", null)),
+
+    create: async (details: CreateDetails) => {
+      const parent = nodes.get(details.parentId);
+      if (!parent) return fail('create', "Can't find parent bookmark for id.", null);
+      if (!parent.children) return fail('create', "Parent is not a folder.", null);
+      if (parent.id === ROOT_ID) return fail('create', "Can't modify the root bookmark folders.", null);
+      const index = details.index ?? parent.children.length;
+      if (index < 0 || index > parent.children.length) return fail('create', 'Index out of bounds.', null);
+
+      const node: MemoryNode = {
+        id: String(nextId++),
+        parentId: parent.id,
+        title: details.title,
+        url: details.url,
+        dateAdded: Date.now(),
+        children: details.url === undefined ? [] : undefined,
+      };
+      nodes.set(node.id, node);
+      parent.children.splice(index, 0, node.id);
+      touch(parent.id);
+
+      const created = toNode(node.id, false);
+      emit({ type: 'created', id: node.id, node: created });
+      return created;
+    },
+
+    move: async (id: string, destination: BookmarkDestination) => {
+      const node = nodes.get(id);
+      const parent = nodes.get(destination.parentId);
+      if (!node) return fail('move', "Can't find bookmark for id.", null);
+      if (!parent) return fail('move', "Can't find parent bookmark for id.", null);
+      if (!parent.children) return fail('move', 'Parent is not a folder.', null);
+      if (isFixed(id) || parent.id === ROOT_ID) return fail('move', "Can't modify the root bookmark folders.", null);
+      if (isInside(parent.id, id)) return fail('move', "Can't move a folder into itself or its descendants.", null);
+
+      const oldParent = nodes.get(node.parentId!)!;
+      const oldIndex = oldParent.children!.indexOf(id);
+      let index = destination.index ?? parent.children.length;
+      if (index < 0 || index > parent.children.length) return fail('move', 'Index out of bounds.', null);
+
+      oldParent.children!.splice(oldIndex, 1);
+      // The index was counted with the node still in place
+      if (oldParent === parent && oldIndex < index) index--;
+      parent.children.splice(Math.min(index, parent.children.length), 0, id);
+      node.parentId = parent.id;
+      touch(oldParent.id);
+      touch(parent.id);
+
+      const newIndex = parent.children.indexOf(id);
+      emit({ type: 'moved', id, parentId: parent.id, index: newIndex, oldParentId: oldParent.id, oldIndex });
+      return toNode(id, false);
+    },
+
+    update: async (id, changes) => {
+      const node = nodes.get(id);
+      if (!node) return fail('update', "Can't find bookmark for id.", null);
+      if (isFixed(id)) return fail('update', "Can't modify the root bookmark folders.", null);
+      if (changes.url !== undefined && node.children) return fail('update', "Can't set URL of a bookmark folder.", null);
+
+      if (changes.title !== undefined) node.title = changes.title;
+      if (changes.url !== undefined) node.url = changes.url;
+      emit({ type: 'changed', id, title: node.title, url: node.url });
+      return toNode(id, false);
+    },
+
+    removeTree: async (id) => {
+      const node = nodes.get(id);
+      if (!node) return fail('removeTree', "Can't find bookmark for id.", false);
+      if (isFixed(id)) return fail('removeTree', "Can't modify the root bookmark folders.", false);
+
+      const removed = toNode(id, true);
+      const parent = nodes.get(node.parentId!)!;
+      const index = parent.children!.indexOf(id);
+      parent.children!.splice(index, 1);
+      touch(parent.id);
+      const forget = (nodeId: string) => {
+        nodes.get(nodeId)!.children?.forEach(forget);
+        nodes.delete(nodeId);
+      };
+      forget(id);
+
+      emit({ type: 'removed', id, parentId: parent.id, index, node: removed });
+      return true;
+    },
+
+    // Like Chrome: every word must appear in the title or URL. The root is never a result.
+    search: async (query) => {
+      const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+      if (words.length === 0) return [];
+      return Array.from(nodes.values())
+        .filter(node => node.id !== ROOT_ID && matchesQuery(node, words))
+        .map(node => toNode(node.id, false));
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import type { BookmarkNode } from './bookmarkService';
+import { recordOperation } from './journal';
+import type { JournalBatch } from './journal';
+import { readStorage, subscribeStorage, writeStorage } from './storage';
+
+// Twin Marks' own data about a bookmark, keyed by Chrome id. Chrome bookmarks
+// have no field for it, so it lives in extension storage. The service worker
+// drops entries when their bookmark is removed.
+export interface BookmarkMeta {
+  tags: string[];
+  note?: string;
+  // ADD_DATE of an imported bookmark; Chrome stamps new bookmarks with the current time
+  addedAt?: number;
+}
+
+const META_KEY = 'bookmarkMeta';
+
+export const getAllMetadata = () => readStorage<Record<string, BookmarkMeta>>(META_KEY, {});
+
+export const subscribeMetadata = (listener: () => void) => subscribeStorage(META_KEY, listener);
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase();
+
+// "react, #hooks  frontend" → ['react', 'hooks', 'frontend']
+export const parseTags = (input: string) => Array.from(new Set(input.split(/[\s,]+/).map(normalizeTag).filter(Boolean)));
+
+const isEmpty = (meta: BookmarkMeta) => meta.tags.length === 0 && !meta.note && !meta.addedAt;
+
+const writeMeta = (all: Record<string, BookmarkMeta>, id: string, meta: BookmarkMeta) => {
+  if (isEmpty(meta)) {
+    delete all[id];
+  } else {
+    all[id] = meta;
+  }
+  return writeStorage(META_KEY, all);
+};
+
+export const getTags = async (id: string): Promise<string[]> => {
+  const all = await getAllMetadata();
+  return all[id]?.tags ?? [];
+};
+
+export const setTags = async (id: string, tags: string[], batch?: JournalBatch): Promise<void> => {
+  const all = await getAllMetadata();
+  const before = all[id]?.tags ?? [];
+  const after = Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+  if (before.join('\n') === after.join('\n')) return;
+
+  await writeMeta(all, id, { ...all[id], tags: after });
+  recordOperation({ type: 'tags', id, before, after }, batch);
+};
+
+export const addTags = async (id: string, tags: string[], batch?: JournalBatch): Promise<void> => {
+  await setTags(id, [...(await getTags(id)), ...tags], batch);
+};
+
+export const setNote = async (id: string, note: string, batch?: JournalBatch): Promise<void> => {
+  const all = await getAllMetadata();
+  const before = all[id]?.note ?? '';
+  const after = note.trim();
+  if (before === after) return;
+
+  await writeMeta(all, id, { ...all[id], tags: all[id]?.tags ?? [], note: after || undefined });
+  recordOperation({ type: 'note', id, before, after }, batch);
+};
+
+// Keeps the dates of imported `nodes` on their copies; `ids` maps each one to its copy.
+export const keepOriginalDates = async (nodes: BookmarkNode[], ids: Map<string, string>): Promise<void> => {
+  const all = await getAllMetadata();
+  let changed = false;
+  const walk = (node: BookmarkNode) => {
+    const createdId = ids.get(node.id);
+    if (createdId && node.dateAdded) {
+      all[createdId] = { tags: [], addedAt: node.dateAdded };
+      changed = true;
+    }
+    node.children?.forEach(walk);
+  };
+  nodes.forEach(walk);
+  if (changed) await writeStorage(META_KEY, all);
+};
+
+// Metadata of `node` and its descendants, e.g. to keep it with a trash entry.
+export const collectMetadata = (node: BookmarkNode, all: Record<string, BookmarkMeta>): Record<string, BookmarkMeta> => {
+  const collected: Record<string, BookmarkMeta> = {};
+  const walk = (current: BookmarkNode) => {
+    if (all[current.id]) collected[current.id] = all[current.id];
+    current.children?.forEach(walk);
+  };
+  walk(node);
+  return collected;
+};
+
+/**
+ * Gives the copies made by a copy or a restore the metadata of their sources.
+ * `ids` maps each source id to the id of its copy, as returned by createTree.
+ */
+export const carryMetadata = async (ids: Map<string, string>, metadata: Record<string, BookmarkMeta>): Promise<void> => {
+  const carried: Record<string, BookmarkMeta> = {};
+  ids.forEach((createdId, sourceId) => {
+    if (metadata[sourceId]) carried[createdId] = metadata[sourceId];
+  });
+  if (Object.keys(carried).length === 0) return;
+
+  const all = await getAllMetadata();
+  await writeStorage(META_KEY, { ...all, ...carried });
+};
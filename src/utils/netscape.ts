@@ -0,0 +1,123 @@
+import type { BookmarkNode } from './bookmarkService';
+import type { BookmarkMeta } from './metadata';
+
+// Netscape bookmark file format, as written by every major browser's "Export bookmarks".
+// Dates are stored as seconds since the epoch.
+
+let importCounter = 0;
+const nextImportId = () => `import-${++importCounter}`;
+
+const toSeconds = (ms?: number) => (ms ? String(Math.floor(ms / 1000)) : null);
+
+const fromSeconds = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const findChild = (element: Element, tagName: string): Element | null => {
+  return Array.from(element.children).find(child => child.tagName === tagName) || null;
+};
+
+// The format never closes <DT>, so depending on the parser a folder's <DL>
+// ends up either inside its <DT> or right after it.
+const findFolderList = (dt: Element): Element | null => {
+  const inner = findChild(dt, 'DL');
+  if (inner) return inner;
+  let sibling = dt.nextElementSibling;
+  while (sibling && sibling.tagName === 'P') sibling = sibling.nextElementSibling;
+  return sibling && sibling.tagName === 'DL' ? sibling : null;
+};
+
+const parseList = (dl: Element, parentId: string): BookmarkNode[] => {
+  const nodes: BookmarkNode[] = [];
+  for (const dt of Array.from(dl.children)) {
+    if (dt.tagName !== 'DT') continue;
+
+    const link = findChild(dt, 'A');
+    if (link) {
+      const url = link.getAttribute('href');
+      if (!url) continue;
+      nodes.push({
+        id: nextImportId(),
+        parentId,
+        index: nodes.length,
+        title: link.textContent?.trim() || url,
+        url,
+        dateAdded: fromSeconds(link.getAttribute('add_date')),
+      });
+      continue;
+    }
+
+    const heading = findChild(dt, 'H3');
+    if (heading) {
+      const id = nextImportId();
+      const list = findFolderList(dt);
+      nodes.push({
+        id,
+        parentId,
+        index: nodes.length,
+        title: heading.textContent?.trim() || 'Untitled',
+        dateAdded: fromSeconds(heading.getAttribute('add_date')),
+        dateGroupModified: fromSeconds(heading.getAttribute('last_modified')),
+        children: list ? parseList(list, id) : [],
+      });
+    }
+  }
+  return nodes;
+};
+
+/**
+ * Parses a `bookmarks.html` export into detached nodes. Ids are placeholders;
+ * pass the result to `createTree` to add it to the real tree.
+ */
+export const parseNetscapeBookmarks = (html: string): BookmarkNode[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const root = doc.querySelector('dl');
+  if (!root) {
+    throw new Error('Not a Netscape bookmark file: no <DL> list found');
+  }
+  return parseList(root, 'import-root');
+};
+
+const serializeNode = (node: BookmarkNode, depth: number, metadata: Record<string, BookmarkMeta>): string => {
+  const indent = '    '.repeat(depth);
+  const added = toSeconds(metadata[node.id]?.addedAt ?? node.dateAdded);
+  const addDate = added ? ` ADD_DATE="${added}"` : '';
+
+  if (node.url) {
+    return `${indent}<DT><A HREF="${escapeHtml(node.url)}"${addDate}>${escapeHtml(node.title)}</A>\n`;
+  }
+
+  const modified = toSeconds(node.dateGroupModified);
+  const lastModified = modified ? ` LAST_MODIFIED="${modified}"` : '';
+  return (
+    `${indent}<DT><H3${addDate}${lastModified}>${escapeHtml(node.title)}</H3>\n` +
+    `${indent}<DL><p>\n` +
+    (node.children || []).map(child => serializeNode(child, depth + 1, metadata)).join('') +
+    `${indent}</DL><p>\n`
+  );
+};
+
+// Imported bookmarks are written with the ADD_DATE kept in `metadata`, not the date of the import
+export const serializeNetscapeBookmarks = (nodes: BookmarkNode[], metadata: Record<string, BookmarkMeta> = {}): string => {
+  return (
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>\n' +
+    '<!-- This is an automatically generated file.\n' +
+    '     It will be read and overwritten.\n' +
+    '     DO NOT EDIT! -->\n' +
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">\n' +
+    '<TITLE>Bookmarks</TITLE>\n' +
+    '<H1>Bookmarks</H1>\n' +
+    '<DL><p>\n' +
+    nodes.map(node => serializeNode(node, 1, metadata)).join('') +
+    '</DL><p>\n'
+  );
+};
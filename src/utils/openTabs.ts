@@ -0,0 +1,105 @@
+import { createBookmark, getSubTree } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { runBatch } from './journal';
+
+// The browser's open windows and tabs, shown in a pane as the "Open Tabs" pseudo-folder.
+
+export const OPEN_TABS_FOLDER_ID = 'twin-marks:open-tabs';
+
+export interface OpenTab {
+  id: number;
+  windowId: number;
+  title: string;
+  url: string;
+  favIconUrl?: string;
+  active: boolean;
+  pinned: boolean;
+}
+
+export interface OpenWindow {
+  id: number;
+  focused: boolean;
+  incognito: boolean;
+  tabs: OpenTab[];
+}
+
+// Outside the extension (`vite dev`) there are no tabs to list
+export const canUseTabs = () => typeof chrome !== 'undefined' && !!chrome.windows && !!chrome.tabs;
+
+// New-tab pages and the like cannot be bookmarked meaningfully
+export const isBookmarkableUrl = (url: string) => /^(https?|ftp|file):/i.test(url);
+
+export const getOpenWindows = async (): Promise<OpenWindow[]> => {
+  if (!canUseTabs()) return [];
+  const windows = await chrome.windows.getAll({ populate: true, windowTypes: ['normal'] });
+  return windows
+    .filter((win): win is chrome.windows.Window & { id: number } => win.id !== undefined)
+    .map(win => ({
+      id: win.id,
+      focused: win.focused,
+      incognito: win.incognito,
+      tabs: (win.tabs ?? [])
+        .filter((tab): tab is chrome.tabs.Tab & { id: number } => tab.id !== undefined)
+        .map(tab => ({
+          id: tab.id,
+          windowId: tab.windowId,
+          title: tab.title || tab.pendingUrl || tab.url || '',
+          url: tab.url || tab.pendingUrl || '',
+          favIconUrl: tab.favIconUrl,
+          active: tab.active,
+          pinned: tab.pinned,
+        })),
+    }));
+};
+
+export const subscribeOpenTabs = (listener: () => void) => {
+  if (!canUseTabs()) return () => {};
+  const events = [
+    chrome.tabs.onCreated,
+    chrome.tabs.onRemoved,
+    chrome.tabs.onUpdated,
+    chrome.tabs.onMoved,
+    chrome.tabs.onAttached,
+    chrome.tabs.onDetached,
+    chrome.tabs.onActivated,
+    chrome.windows.onCreated,
+    chrome.windows.onRemoved,
+  ] as chrome.events.Event<() => void>[];
+  events.forEach(event => event.addListener(listener));
+  return () => events.forEach(event => event.removeListener(listener));
+};
+
+export const focusTab = async (tab: OpenTab) => {
+  await chrome.tabs.update(tab.id, { active: true });
+  await chrome.windows.update(tab.windowId, { focused: true });
+};
+
+export const closeTabs = (tabIds: number[]) => chrome.tabs.remove(tabIds);
+
+/**
+ * Bookmarks every tab of a window into a new folder `title` under `parentId`,
+ * as one undo step. Tabs without a bookmarkable URL are skipped.
+ */
+export const saveWindowToFolder = async (win: OpenWindow, parentId: string, title: string): Promise<BookmarkNode | null> => {
+  const tabs = win.tabs.filter(tab => isBookmarkableUrl(tab.url));
+  return runBatch(`Save ${tabs.length} tabs`, async (batch) => {
+    const folder = await createBookmark({ parentId, title }, batch);
+    if (!folder) return null;
+    for (const tab of tabs) {
+      await createBookmark({ parentId: folder.id, title: tab.title, url: tab.url }, batch);
+    }
+    return folder;
+  });
+};
+
+// Opens the links directly inside a folder; subfolders are left out
+export const openFolderInWindow = async (folderId: string): Promise<number> => {
+  const urls = (await getSubTree(folderId)).flatMap(node => (node.url && isBookmarkableUrl(node.url) ? [node.url] : []));
+  if (urls.length === 0) return 0;
+  if (canUseTabs()) {
+    await chrome.windows.create({ url: urls, focused: true });
+  } else {
+    urls.forEach(url => window.open(url, '_blank'));
+  }
+  return urls.length;
+};
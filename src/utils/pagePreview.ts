@@ -0,0 +1,115 @@
+// Page previews are fetched by the service worker, which sees the real headers and
+// is not bound by CORS. The page turns the returned HTML into a metadata card.
+
+// What the service worker sends back for a `fetchPreview` message.
+interface PreviewResponse {
+  url: string;
+  status?: number;
+  finalUrl?: string;
+  contentType?: string;
+  // Why the page refuses to be framed, e.g. "X-Frame-Options: DENY"
+  frameBlockedBy?: string | null;
+  html?: string;
+  error?: string;
+}
+
+export interface PagePreview {
+  url: string;
+  status?: number;
+  finalUrl?: string;
+  contentType?: string;
+  frameBlockedBy?: string | null;
+  title?: string;
+  description?: string;
+  image?: string;
+  favicon?: string;
+  siteName?: string;
+  excerpt?: string;
+  error?: string;
+}
+
+const EXCERPT_LENGTH = 1200;
+
+// Outside the extension (`vite dev`) there is no service worker to fetch with
+export const canFetchPreviews = () => typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+
+// Previews are cached for the session; revisiting a bookmark should not refetch it
+const cache = new Map<string, Promise<PagePreview>>();
+
+const resolveUrl = (value: string | null | undefined, baseUrl: string) => {
+  if (!value) return undefined;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return undefined;
+  }
+};
+
+const collapse = (text: string | null | undefined) => text?.replace(/\s+/g, ' ').trim() || undefined;
+
+// Readable text from the main content: paragraphs long enough to be prose, not navigation
+const extractExcerpt = (doc: Document): string | undefined => {
+  doc.querySelectorAll('script, style, noscript, template, svg, nav, header, footer, aside, form').forEach(el => el.remove());
+  const root = doc.querySelector('article') ?? doc.querySelector('main') ?? doc.body;
+  if (!root) return undefined;
+  const paragraphs = Array.from(root.querySelectorAll('p'))
+    .map(p => collapse(p.textContent) ?? '')
+    .filter(text => text.length >= 40);
+  const text = paragraphs.length > 0 ? paragraphs.join('\n\n') : collapse(root.textContent) ?? '';
+  if (!text) return undefined;
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+};
+
+export const parsePreviewHtml = (html: string, baseUrl: string): Pick<PagePreview, 'title' | 'description' | 'image' | 'favicon' | 'siteName' | 'excerpt'> => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const meta = (...names: string[]) => {
+    for (const name of names) {
+      const el = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`);
+      const content = collapse(el?.getAttribute('content'));
+      if (content) return content;
+    }
+    return undefined;
+  };
+  const base = resolveUrl(doc.querySelector('base[href]')?.getAttribute('href'), baseUrl) ?? baseUrl;
+  const icon = doc.querySelector('link[rel~="icon"], link[rel="apple-touch-icon"]')?.getAttribute('href');
+
+  return {
+    title: meta('og:title', 'twitter:title') ?? collapse(doc.title),
+    description: meta('og:description', 'twitter:description', 'description'),
+    image: resolveUrl(meta('og:image', 'og:image:url', 'twitter:image'), base),
+    favicon: resolveUrl(icon ?? '/favicon.ico', base),
+    siteName: meta('og:site_name', 'application-name'),
+    excerpt: extractExcerpt(doc),
+  };
+};
+
+const loadPreview = async (url: string): Promise<PagePreview> => {
+  if (!canFetchPreviews()) {
+    return { url, error: 'Page cards need the extension service worker' };
+  }
+  let response: PreviewResponse | undefined;
+  try {
+    response = await chrome.runtime.sendMessage({ type: 'fetchPreview', url });
+  } catch (err) {
+    console.error('fetchPreview message failed:', err);
+  }
+  if (!response) return { url, error: 'Service worker did not respond' };
+
+  const { html, ...rest } = response;
+  return html ? { ...rest, ...parsePreviewHtml(html, response.finalUrl || url) } : rest;
+};
+
+export const fetchPagePreview = (url: string): Promise<PagePreview> => {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = loadPreview(url);
+    cache.set(url, pending);
+    // Failures are worth retrying next time
+    pending.then(preview => { if (preview.error) cache.delete(url); });
+  }
+  return pending;
+};
+
+// Framing is considered failed when the headers forbid it or the page did not load
+export const isFrameBlocked = (preview: PagePreview) =>
+  !!preview.frameBlockedBy || !!preview.error || (preview.status !== undefined && preview.status >= 400);
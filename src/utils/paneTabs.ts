@@ -0,0 +1,96 @@
+// Folder tabs of one pane. Each tab keeps its own back/forward history.
+export interface FolderTab {
+  id: string;
+  history: string[];
+  // Position of the open folder in `history`
+  index: number;
+}
+
+export interface PaneTabs {
+  tabs: FolderTab[];
+  activeTabId: string;
+}
+
+const HISTORY_LIMIT = 50;
+
+const newTabId = () => `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const createTab = (folderId: string): FolderTab => ({ id: newTabId(), history: [folderId], index: 0 });
+
+export const createPaneTabs = (folderId: string): PaneTabs => {
+  const tab = createTab(folderId);
+  return { tabs: [tab], activeTabId: tab.id };
+};
+
+export const getTabFolderId = (tab: FolderTab) => tab.history[tab.index];
+
+export const getActiveTab = (pane: PaneTabs) => pane.tabs.find(tab => tab.id === pane.activeTabId) ?? pane.tabs[0];
+
+export const getActiveFolderId = (pane: PaneTabs) => getTabFolderId(getActiveTab(pane));
+
+const updateActiveTab = (pane: PaneTabs, update: (tab: FolderTab) => FolderTab): PaneTabs => {
+  const active = getActiveTab(pane);
+  return { ...pane, tabs: pane.tabs.map(tab => (tab === active ? update(tab) : tab)) };
+};
+
+// Opening a folder drops the forward history, like a browser
+export const navigateTab = (pane: PaneTabs, folderId: string): PaneTabs => {
+  if (getActiveFolderId(pane) === folderId) return pane;
+  return updateActiveTab(pane, (tab) => {
+    const history = [...tab.history.slice(0, tab.index + 1), folderId].slice(-HISTORY_LIMIT);
+    return { ...tab, history, index: history.length - 1 };
+  });
+};
+
+export const canGoBack = (pane: PaneTabs) => getActiveTab(pane).index > 0;
+
+export const canGoForward = (pane: PaneTabs) => {
+  const tab = getActiveTab(pane);
+  return tab.index < tab.history.length - 1;
+};
+
+export const goBack = (pane: PaneTabs): PaneTabs =>
+  canGoBack(pane) ? updateActiveTab(pane, tab => ({ ...tab, index: tab.index - 1 })) : pane;
+
+export const goForward = (pane: PaneTabs): PaneTabs =>
+  canGoForward(pane) ? updateActiveTab(pane, tab => ({ ...tab, index: tab.index + 1 })) : pane;
+
+// New tabs open next to the active one
+export const openTab = (pane: PaneTabs, folderId: string, activate = true): PaneTabs => {
+  const tab = createTab(folderId);
+  const activeIndex = pane.tabs.indexOf(getActiveTab(pane));
+  const tabs = [...pane.tabs];
+  tabs.splice(activeIndex + 1, 0, tab);
+  return { tabs, activeTabId: activate ? tab.id : pane.activeTabId };
+};
+
+export const selectTab = (pane: PaneTabs, tabId: string): PaneTabs =>
+  pane.tabs.some(tab => tab.id === tabId) ? { ...pane, activeTabId: tabId } : pane;
+
+// The last tab of a pane cannot be closed. Closing the active tab activates its neighbour.
+export const closeTab = (pane: PaneTabs, tabId: string): PaneTabs => {
+  if (pane.tabs.length <= 1) return pane;
+  const closedIndex = pane.tabs.findIndex(tab => tab.id === tabId);
+  if (closedIndex === -1) return pane;
+  const tabs = pane.tabs.filter(tab => tab.id !== tabId);
+  const activeTabId = pane.activeTabId === tabId ? tabs[Math.min(closedIndex, tabs.length - 1)].id : pane.activeTabId;
+  return { tabs, activeTabId };
+};
+
+/**
+ * Drops history entries whose folders no longer exist, e.g. when restoring a
+ * saved workspace. Tabs left without any folder are removed; null when none remain.
+ */
+export const pruneTabs = (pane: PaneTabs, exists: (folderId: string) => boolean): PaneTabs | null => {
+  const tabs = pane.tabs.flatMap((tab) => {
+    const kept = tab.history.map((folderId, i) => ({ folderId, i })).filter(entry => exists(entry.folderId));
+    if (kept.length === 0) return [];
+    // Stay on the closest surviving entry at or before the open one
+    const before = kept.filter(entry => entry.i <= tab.index);
+    const index = before.length > 0 ? before.length - 1 : 0;
+    return [{ ...tab, history: kept.map(entry => entry.folderId), index }];
+  });
+  if (tabs.length === 0) return null;
+  const activeTabId = tabs.some(tab => tab.id === pane.activeTabId) ? pane.activeTabId : tabs[0].id;
+  return { tabs, activeTabId };
+};
@@ -0,0 +1,8 @@
+import { TRASH_FOLDER_ID } from './trash';
+import { DEAD_LINKS_FOLDER_ID } from './linkReport';
+import { OPEN_TABS_FOLDER_ID } from './openTabs';
+
+// Views a pane can open in place of a real bookmark folder.
+const PSEUDO_FOLDER_IDS = [TRASH_FOLDER_ID, DEAD_LINKS_FOLDER_ID, OPEN_TABS_FOLDER_ID];
+
+export const isPseudoFolderId = (id: string) => PSEUDO_FOLDER_IDS.includes(id);
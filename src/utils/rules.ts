@@ -0,0 +1,163 @@
+import { moveBookmark, updateBookmark } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { runBatch } from './journal';
+import { addTags, normalizeTag } from './metadata';
+import type { BookmarkMeta } from './metadata';
+import { readStorage, subscribeStorage, writeStorage } from './storage';
+import { flattenTree, formatPath } from './treeUtils';
+import { getDomain } from './urlNormalize';
+
+export type RuleField = 'url' | 'domain' | 'title';
+export type RuleSyntax = 'glob' | 'regex';
+
+export type RuleAction =
+  | { type: 'move'; folderId: string }
+  | { type: 'rename'; template: string }
+  | { type: 'tag'; tags: string[] };
+
+export interface OrganizeRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  field: RuleField;
+  syntax: RuleSyntax;
+  pattern: string;
+  action: RuleAction;
+  // Later rules are skipped for a bookmark this rule matched
+  stop: boolean;
+}
+
+export interface ProposedChange {
+  node: BookmarkNode;
+  path: string[];
+  ruleNames: string[];
+  move?: { parentId: string; path: string };
+  title?: string;
+  tags?: string[];
+}
+
+const RULES_KEY = 'organizeRules';
+
+export const listRules = () => readStorage<OrganizeRule[]>(RULES_KEY, []);
+
+export const saveRules = (rules: OrganizeRule[]) => writeStorage(RULES_KEY, rules);
+
+export const subscribeRules = (listener: () => void) => subscribeStorage(RULES_KEY, listener);
+
+export const createRule = (): OrganizeRule => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: 'New rule',
+  enabled: true,
+  field: 'url',
+  syntax: 'glob',
+  pattern: '',
+  action: { type: 'tag', tags: [] },
+  stop: false,
+});
+
+// "*" matches anything, "?" one character. Each wildcard is a capture group so
+// rename templates can refer to it as $1, $2...
+const globToRegex = (glob: string) => {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '(.*)' : char === '?' ? '(.)' : char.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+export const compileRule = (rule: OrganizeRule): RegExp | null => {
+  if (!rule.pattern.trim()) return null;
+  try {
+    return rule.syntax === 'regex' ? new RegExp(rule.pattern, 'i') : globToRegex(rule.pattern.trim());
+  } catch {
+    return null;
+  }
+};
+
+// URL globs are written the way people type addresses: "github.com/*" without scheme or www.
+const fieldValue = (node: BookmarkNode, rule: OrganizeRule): string | null => {
+  if (!node.url) return null;
+  switch (rule.field) {
+    case 'url':
+      return rule.syntax === 'glob' ? node.url.replace(/^[a-z][a-z0-9+.-]*:\/\/(www\.)?/i, '') : node.url;
+    case 'domain':
+      return getDomain(node.url);
+    case 'title':
+      return node.title;
+  }
+};
+
+const renderTemplate = (template: string, node: BookmarkNode, match: RegExpExecArray) => {
+  return template
+    .replace(/\{title\}/g, node.title)
+    .replace(/\{domain\}/g, (node.url && getDomain(node.url)) || '')
+    .replace(/\$(\d)/g, (_, n: string) => match[Number(n)] ?? '');
+};
+
+/**
+ * Dry run: what the enabled rules would do to every bookmark below `roots`.
+ * Rules apply in order; the first matching move wins, renames see the result of
+ * earlier renames, and tags accumulate.
+ */
+export const planRules = (
+  rules: OrganizeRule[],
+  roots: BookmarkNode[],
+  fullTree: BookmarkNode[],
+  metadata: Record<string, BookmarkMeta>,
+): ProposedChange[] => {
+  const folderPaths = new Map<string, string>();
+  for (const item of flattenTree(fullTree)) {
+    if (!item.node.url) folderPaths.set(item.node.id, formatPath([...item.path, item.node.title].filter(Boolean)));
+  }
+  const compiled = rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ rule, regex: compileRule(rule) }))
+    .filter((entry): entry is { rule: OrganizeRule; regex: RegExp } => entry.regex !== null);
+
+  const changes: ProposedChange[] = [];
+  for (const item of flattenTree(roots)) {
+    const { node } = item;
+    if (!node.url) continue;
+
+    const change: ProposedChange = { node, path: item.path, ruleNames: [] };
+    let title = node.title;
+    const existingTags = new Set(metadata[node.id]?.tags ?? []);
+    const newTags = new Set<string>();
+
+    for (const { rule, regex } of compiled) {
+      const value = fieldValue({ ...node, title }, rule);
+      const match = value !== null ? regex.exec(value) : null;
+      if (!match) continue;
+
+      const { action } = rule;
+      if (action.type === 'move') {
+        if (change.move || !folderPaths.has(action.folderId)) continue;
+        if (action.folderId !== node.parentId) {
+          change.move = { parentId: action.folderId, path: folderPaths.get(action.folderId)! };
+        }
+      } else if (action.type === 'rename') {
+        title = renderTemplate(action.template, { ...node, title }, match).trim() || title;
+      } else {
+        action.tags.map(normalizeTag).filter(tag => tag && !existingTags.has(tag)).forEach(tag => newTags.add(tag));
+      }
+      change.ruleNames.push(rule.name);
+      if (rule.stop) break;
+    }
+
+    if (title !== node.title) change.title = title;
+    if (newTags.size > 0) change.tags = Array.from(newTags);
+    if (change.move || change.title || change.tags) changes.push(change);
+  }
+  return changes;
+};
+
+// Applies approved changes as a single undo step.
+export const applyChanges = async (changes: ProposedChange[]): Promise<void> => {
+  await runBatch(`Organize ${changes.length} bookmarks`, async (batch) => {
+    for (const change of changes) {
+      if (change.title) await updateBookmark(change.node.id, { title: change.title }, batch);
+      if (change.move) await moveBookmark(change.node.id, { parentId: change.move.parentId }, batch);
+      if (change.tags) await addTags(change.node.id, change.tags, batch);
+    }
+  });
+};
@@ -0,0 +1,193 @@
+import type { FlatBookmark } from './treeUtils';
+import { isDeadLink } from './linkCheck';
+import type { LinkCheckResult } from './linkCheck';
+import { getDomain } from './urlNormalize';
+import { normalizeTag } from './metadata';
+import type { BookmarkMeta } from './metadata';
+
+// Query syntax, terms are ANDed together:
+//   react hooks            words match the title, URL or note
+//   "exact phrase"         quoted text keeps its spaces
+//   -word / -site:x.com    a leading "-" negates any term
+//   title:x  url:x         restrict a match to one field
+//   /regex/i  title:/x/    slashes turn the value into a regular expression
+//   site:example.com       the host or any of its subdomains
+//   in:"Folder Name"       anywhere below a folder whose title contains the value
+//   added:>2024-01-01      also <, >=, <=, and added:2024 / added:2024-05 for a whole year or month
+//   is:folder  is:bookmark
+//   dead:true  dead:false  from the stored link health report
+//   tag:react  note:todo   tags and notes added in Twin Marks
+
+export type SearchField = 'text' | 'title' | 'url' | 'site' | 'in' | 'added' | 'is' | 'dead' | 'tag' | 'note';
+
+export interface SearchTerm {
+  field: SearchField;
+  value: string;
+  negate: boolean;
+  regex?: RegExp;
+}
+
+export interface ParsedQuery {
+  terms: SearchTerm[];
+  // Terms that were understood but could not be used, e.g. an invalid date
+  errors: string[];
+}
+
+// A search started from outside a pane, e.g. by clicking a chart in the statistics dashboard
+export interface SearchRequest {
+  query: string;
+  allFolders: boolean;
+}
+
+export interface SearchContext {
+  linkResults: Record<string, LinkCheckResult>;
+  metadata: Record<string, BookmarkMeta>;
+}
+
+const FIELDS: SearchField[] = ['title', 'url', 'site', 'in', 'added', 'is', 'dead', 'tag', 'note'];
+const REGEX_FIELDS: SearchField[] = ['text', 'title', 'url', 'note'];
+
+const tokenize = (query: string): { raw: string; quoted: boolean }[] => {
+  const tokens: { raw: string; quoted: boolean }[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    let raw = '';
+    let quoted = false;
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        const stop = end === -1 ? query.length : end;
+        raw += query.slice(i + 1, stop);
+        quoted = true;
+        i = stop + 1;
+      } else {
+        raw += query[i++];
+      }
+    }
+    tokens.push({ raw, quoted });
+  }
+  return tokens;
+};
+
+const parseRegex = (value: string): RegExp | undefined => {
+  const match = /^\/(.+)\/([imsu]*)$/.exec(value);
+  if (!match) return undefined;
+  try {
+    return new RegExp(match[1], match[2].includes('i') ? match[2] : `${match[2]}i`);
+  } catch {
+    return undefined;
+  }
+};
+
+// "2024", "2024-05" and "2024-05-10" cover the whole year, month or day
+const parseDateRange = (value: string): { op: string; start: number; end: number } | null => {
+  const match = /^(>=|<=|>|<|=)?(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+  const [, op = '=', year, month, day] = match;
+  const y = Number(year);
+  const m = month ? Number(month) - 1 : 0;
+  const d = day ? Number(day) : 1;
+  const start = new Date(y, m, d);
+  const end = day ? new Date(y, m, d + 1) : month ? new Date(y, m + 1, 1) : new Date(y + 1, 0, 1);
+  if (Number.isNaN(start.getTime())) return null;
+  return { op, start: start.getTime(), end: end.getTime() };
+};
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const terms: SearchTerm[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(query)) {
+    let raw = token.raw;
+    let negate = false;
+    if (raw.startsWith('-') && raw.length > 1) {
+      negate = true;
+      raw = raw.slice(1);
+    }
+
+    let field: SearchField = 'text';
+    const colon = raw.indexOf(':');
+    if (colon > 0 && FIELDS.includes(raw.slice(0, colon).toLowerCase() as SearchField)) {
+      field = raw.slice(0, colon).toLowerCase() as SearchField;
+      raw = raw.slice(colon + 1);
+    }
+    if (!raw) continue;
+
+    const term: SearchTerm = { field, value: raw, negate };
+    if (REGEX_FIELDS.includes(field) && !token.quoted && raw.startsWith('/')) {
+      term.regex = parseRegex(raw);
+      if (!term.regex && /^\/.+\/[a-z]*$/.test(raw)) {
+        errors.push(`Invalid regular expression ${raw}`);
+      }
+    }
+    if (field === 'added' && !parseDateRange(raw)) {
+      errors.push(`Invalid date ${raw}`);
+      continue;
+    }
+    if (field === 'is' && !['folder', 'bookmark'].includes(raw.toLowerCase())) {
+      errors.push(`Unknown is:${raw}`);
+      continue;
+    }
+    terms.push(term);
+  }
+
+  return { terms, errors };
+};
+
+const includesText = (haystack: string | undefined, term: SearchTerm) => {
+  if (!haystack) return false;
+  if (term.regex) return term.regex.test(haystack);
+  return haystack.toLowerCase().includes(term.value.toLowerCase());
+};
+
+const matchesTerm = (item: FlatBookmark, term: SearchTerm, context: SearchContext): boolean => {
+  const { node } = item;
+  switch (term.field) {
+    case 'text':
+      return includesText(node.title, term) || includesText(node.url, term) || includesText(context.metadata[node.id]?.note, term);
+    case 'title':
+      return includesText(node.title, term);
+    case 'url':
+      return includesText(node.url, term);
+    case 'site': {
+      const domain = node.url ? getDomain(node.url) : null;
+      if (!domain) return false;
+      const site = term.value.toLowerCase().replace(/^www\./, '');
+      return domain === site || domain.endsWith(`.${site}`);
+    }
+    case 'in': {
+      const value = term.value.toLowerCase();
+      return item.path.some(folder => folder.toLowerCase().includes(value));
+    }
+    case 'added': {
+      const range = parseDateRange(term.value);
+      if (!range || node.dateAdded === undefined) return false;
+      switch (range.op) {
+        case '>': return node.dateAdded >= range.end;
+        case '>=': return node.dateAdded >= range.start;
+        case '<': return node.dateAdded < range.start;
+        case '<=': return node.dateAdded < range.end;
+        default: return node.dateAdded >= range.start && node.dateAdded < range.end;
+      }
+    }
+    case 'is':
+      return term.value.toLowerCase() === 'folder' ? !node.url : !!node.url;
+    case 'dead': {
+      const result = context.linkResults[node.id];
+      const dead = !!result && isDeadLink(result);
+      return ['true', 'yes', '1'].includes(term.value.toLowerCase()) ? dead : !dead && !!node.url;
+    }
+    case 'tag':
+      return context.metadata[node.id]?.tags.includes(normalizeTag(term.value)) ?? false;
+    case 'note':
+      return includesText(context.metadata[node.id]?.note, term);
+  }
+};
+
+export const matchesQuery = (item: FlatBookmark, query: ParsedQuery, context: SearchContext): boolean => {
+  return query.terms.every(term => matchesTerm(item, term, context) !== term.negate);
+};
@@ -0,0 +1,65 @@
+import { getTree } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { readStorage, removeStorage, subscribeStorage, writeStorage } from './storage';
+
+export interface SnapshotMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  bookmarkCount: number;
+  folderCount: number;
+}
+
+export interface Snapshot extends SnapshotMeta {
+  tree: BookmarkNode[];
+}
+
+const INDEX_KEY = 'snapshots';
+const snapshotKey = (id: string) => `snapshot:${id}`;
+
+const countNodes = (nodes: BookmarkNode[]) => {
+  let bookmarkCount = 0;
+  let folderCount = 0;
+  const walk = (node: BookmarkNode) => {
+    if (node.url) {
+      bookmarkCount++;
+    } else {
+      folderCount++;
+      node.children?.forEach(walk);
+    }
+  };
+  nodes.forEach(walk);
+  return { bookmarkCount, folderCount };
+};
+
+export const listSnapshots = () => readStorage<SnapshotMeta[]>(INDEX_KEY, []);
+
+export const subscribeSnapshots = (listener: () => void) => subscribeStorage(INDEX_KEY, listener);
+
+// Captures the whole current tree. The tree itself lives under its own key so
+// listing snapshots never has to load them.
+export const saveSnapshot = async (name: string): Promise<SnapshotMeta> => {
+  const tree = await getTree();
+  const meta: SnapshotMeta = {
+    id: Date.now().toString(36),
+    name: name.trim() || new Date().toLocaleString(),
+    createdAt: Date.now(),
+    ...countNodes(tree),
+  };
+  await writeStorage(snapshotKey(meta.id), tree);
+  await writeStorage(INDEX_KEY, [meta, ...(await listSnapshots())]);
+  return meta;
+};
+
+export const loadSnapshot = async (id: string): Promise<Snapshot | null> => {
+  const meta = (await listSnapshots()).find(snapshot => snapshot.id === id);
+  if (!meta) return null;
+  const tree = await readStorage<BookmarkNode[] | null>(snapshotKey(id), null);
+  return tree ? { ...meta, tree } : null;
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  const remaining = (await listSnapshots()).filter(snapshot => snapshot.id !== id);
+  await writeStorage(INDEX_KEY, remaining);
+  await removeStorage(snapshotKey(id));
+};
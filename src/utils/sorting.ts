@@ -0,0 +1,88 @@
+import { getSubTree, moveBookmark } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { runBatch } from './journal';
+import type { JournalBatch } from './journal';
+import { getDomain } from './urlNormalize';
+
+export type SortMode = 'none' | 'title' | 'domain' | 'dateAdded' | 'url';
+
+export interface SortOptions {
+  mode: SortMode;
+  foldersFirst: boolean;
+  descending: boolean;
+}
+
+export const DEFAULT_SORT_OPTIONS: SortOptions = { mode: 'none', foldersFirst: true, descending: false };
+
+export const SORT_MODES: { mode: SortMode; label: string }[] = [
+  { mode: 'none', label: 'Chrome order' },
+  { mode: 'title', label: 'Title' },
+  { mode: 'domain', label: 'Domain' },
+  { mode: 'dateAdded', label: 'Date added' },
+  { mode: 'url', label: 'URL' },
+];
+
+// Numeric so "Part 2" sorts before "Part 10"; base sensitivity so full/half-width and kana/case variants tie
+const collator = new Intl.Collator(['ja', 'en'], { numeric: true, sensitivity: 'base' });
+
+const compareText = (a = '', b = '') => collator.compare(a, b);
+
+const stripScheme = (url = '') => url.replace(/^[a-z][a-z0-9+.-]*:\/\/(www\.)?/i, '');
+
+const compareNodes = (a: BookmarkNode, b: BookmarkNode, mode: SortMode): number => {
+  switch (mode) {
+    case 'title':
+      return compareText(a.title, b.title);
+    case 'domain':
+      return compareText((a.url && getDomain(a.url)) || '', (b.url && getDomain(b.url)) || '') || compareText(a.title, b.title);
+    case 'dateAdded':
+      return (a.dateAdded ?? 0) - (b.dateAdded ?? 0);
+    case 'url':
+      return compareText(stripScheme(a.url), stripScheme(b.url)) || compareText(a.title, b.title);
+    default:
+      return 0;
+  }
+};
+
+// Stable: ties keep their Chrome order.
+export const sortNodes = (nodes: BookmarkNode[], options: SortOptions): BookmarkNode[] => {
+  if (options.mode === 'none') return nodes;
+  const direction = options.descending ? -1 : 1;
+  return nodes
+    .map((node, position) => ({ node, position }))
+    .sort((a, b) => {
+      if (options.foldersFirst && !a.node.url !== !b.node.url) return a.node.url ? 1 : -1;
+      return direction * compareNodes(a.node, b.node, options.mode) || a.position - b.position;
+    })
+    .map(entry => entry.node);
+};
+
+const applyToFolder = async (folderId: string, options: SortOptions, recursive: boolean, batch: JournalBatch): Promise<number> => {
+  const children = await getSubTree(folderId);
+  const sorted = sortNodes(children, options);
+  const order = children.map(child => child.id);
+  let moved = 0;
+
+  // Placing each item in turn only ever moves it towards the front, so index i is exact
+  for (let i = 0; i < sorted.length; i++) {
+    const id = sorted[i].id;
+    const current = order.indexOf(id);
+    if (current === i) continue;
+    await moveBookmark(id, { parentId: folderId, index: i }, batch);
+    order.splice(current, 1);
+    order.splice(i, 0, id);
+    moved++;
+  }
+
+  if (recursive) {
+    for (const child of sorted) {
+      if (!child.url) moved += await applyToFolder(child.id, options, true, batch);
+    }
+  }
+  return moved;
+};
+
+// Rewrites the real Chrome order to match the sort, as a single undo step. Returns the number of moves.
+export const applySortOrder = async (folderId: string, options: SortOptions, recursive: boolean): Promise<number> => {
+  return runBatch(recursive ? 'Sort folder and subfolders' : 'Sort folder', batch => applyToFolder(folderId, options, recursive, batch));
+};
@@ -0,0 +1,139 @@
+import type { BookmarkNode } from './bookmarkService';
+import { isDeadLink } from './linkCheck';
+import type { LinkCheckResult } from './linkCheck';
+import type { BookmarkMeta } from './metadata';
+import { getDomain } from './urlNormalize';
+
+export interface FolderStats {
+  id: string;
+  title: string;
+  // Titles of the enclosing folders, outermost first
+  path: string[];
+  depth: number;
+  // Everything below the folder, not just its direct children
+  bookmarks: number;
+  folders: number;
+  // Bookmarks with a stored link-check result, and how many of those are dead
+  checked: number;
+  dead: number;
+  dateGroupModified?: number;
+}
+
+export interface CollectionStats {
+  bookmarks: number;
+  folders: number;
+  // Nesting of the deepest folder below the roots, which count as depth 1
+  maxDepth: number;
+  checked: number;
+  dead: number;
+  // Folders other than the nameless root, in tree order
+  folderStats: FolderStats[];
+  // Largest first
+  topDomains: { domain: string; count: number }[];
+  // "YYYY-MM" → bookmarks added that month, oldest first, gaps filled with 0
+  perMonth: { month: string; count: number }[];
+  // Folders that have gone longest without changes, oldest first
+  staleFolders: FolderStats[];
+}
+
+const TOP_DOMAIN_COUNT = 12;
+const STALE_FOLDER_COUNT = 10;
+
+const monthKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const fillMonths = (counts: Map<string, number>) => {
+  const months = Array.from(counts.keys()).sort();
+  if (months.length === 0) return [];
+  const result: { month: string; count: number }[] = [];
+  let [year, month] = months[0].split('-').map(Number);
+  const last = months[months.length - 1];
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    result.push({ month: key, count: counts.get(key) ?? 0 });
+    if (key === last) break;
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return result;
+};
+
+/**
+ * Walks the whole tree once and aggregates counts per folder, per domain and
+ * per month. `linkResults` are the stored link-check results keyed by bookmark id;
+ * `metadata` supplies the original add date of bookmarks that were moved or restored.
+ */
+export const computeStats = (
+  roots: BookmarkNode[],
+  linkResults: Record<string, LinkCheckResult>,
+  metadata: Record<string, BookmarkMeta>,
+): CollectionStats => {
+  const folderStats: FolderStats[] = [];
+  const domains = new Map<string, number>();
+  const months = new Map<string, number>();
+  let maxDepth = 0;
+
+  // Returns the totals of `node`'s subtree so each parent can add them up
+  const walk = (node: BookmarkNode, path: string[], depth: number): Pick<FolderStats, 'bookmarks' | 'folders' | 'checked' | 'dead'> => {
+    if (node.url) {
+      const domain = getDomain(node.url);
+      if (domain) domains.set(domain, (domains.get(domain) ?? 0) + 1);
+      const addedAt = metadata[node.id]?.addedAt ?? node.dateAdded;
+      if (addedAt) {
+        const key = monthKey(addedAt);
+        months.set(key, (months.get(key) ?? 0) + 1);
+      }
+      const result = linkResults[node.id];
+      return { bookmarks: 1, folders: 0, checked: result ? 1 : 0, dead: result && isDeadLink(result) ? 1 : 0 };
+    }
+
+    // The nameless root is not a folder anyone sees
+    const stats: FolderStats | null = depth > 0
+      ? { id: node.id, title: node.title, path, depth, bookmarks: 0, folders: 0, checked: 0, dead: 0, dateGroupModified: node.dateGroupModified }
+      : null;
+    if (stats) {
+      folderStats.push(stats);
+      maxDepth = Math.max(maxDepth, depth);
+    }
+    const totals = { bookmarks: 0, folders: 0, checked: 0, dead: 0 };
+    const childPath = node.title ? [...path, node.title] : path;
+    for (const child of node.children ?? []) {
+      const sub = walk(child, childPath, depth + 1);
+      totals.bookmarks += sub.bookmarks;
+      totals.folders += sub.folders + (child.url ? 0 : 1);
+      totals.checked += sub.checked;
+      totals.dead += sub.dead;
+    }
+    if (stats) Object.assign(stats, totals);
+    return totals;
+  };
+
+  const totals = { bookmarks: 0, folders: 0, checked: 0, dead: 0 };
+  for (const root of roots) {
+    const sub = walk(root, [], 0);
+    totals.bookmarks += sub.bookmarks;
+    totals.folders += sub.folders;
+    totals.checked += sub.checked;
+    totals.dead += sub.dead;
+  }
+
+  return {
+    ...totals,
+    maxDepth,
+    folderStats,
+    topDomains: Array.from(domains.entries())
+      .map(([domain, count]) => ({ domain, count }))
+      .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain))
+      .slice(0, TOP_DOMAIN_COUNT),
+    perMonth: fillMonths(months),
+    staleFolders: folderStats
+      .filter(folder => folder.dateGroupModified)
+      .sort((a, b) => a.dateGroupModified! - b.dateGroupModified!)
+      .slice(0, STALE_FOLDER_COUNT),
+  };
+};
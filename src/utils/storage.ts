@@ -0,0 +1,91 @@
+// Thin wrapper over chrome.storage.local with a localStorage fallback for `vite dev`.
+
+// Replaces both while the UI runs on the in-memory bookmark tree, whose ids
+// would otherwise pick up the tags, trash and link results of real bookmarks.
+let memoryValues: Map<string, unknown> | null = null;
+
+export const enableMemoryStorage = () => {
+  memoryValues ??= new Map();
+};
+
+export const isMemoryStorage = () => memoryValues !== null;
+
+const hasChromeStorage = () => !memoryValues && typeof chrome !== 'undefined' && !!chrome.storage?.local;
+
+const notifyLocalChange = (key: string) => {
+  window.dispatchEvent(new CustomEvent('twin-marks-storage', { detail: key }));
+};
+
+export const readStorage = async <T>(key: string, fallback: T): Promise<T> => {
+  if (hasChromeStorage()) {
+    return new Promise((resolve) => {
+      chrome.storage.local.get(key, (items) => {
+        if (chrome.runtime.lastError) {
+          console.error(`readStorage failed for ${key}:`, chrome.runtime.lastError);
+          resolve(fallback);
+          return;
+        }
+        resolve(key in items ? (items[key] as T) : fallback);
+      });
+    });
+  }
+  if (memoryValues) {
+    // Cloned like a storage round trip, so callers never share objects with the store
+    return memoryValues.has(key) ? structuredClone(memoryValues.get(key) as T) : fallback;
+  }
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeStorage = async <T>(key: string, value: T): Promise<void> => {
+  if (hasChromeStorage()) {
+    return new Promise((resolve) => {
+      chrome.storage.local.set({ [key]: value }, () => {
+        if (chrome.runtime.lastError) {
+          console.error(`writeStorage failed for ${key}:`, chrome.runtime.lastError);
+        }
+        resolve();
+      });
+    });
+  }
+  if (memoryValues) {
+    memoryValues.set(key, structuredClone(value));
+  } else {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+  notifyLocalChange(key);
+};
+
+export const removeStorage = async (key: string): Promise<void> => {
+  if (hasChromeStorage()) {
+    return new Promise((resolve) => {
+      chrome.storage.local.remove(key, () => resolve());
+    });
+  }
+  if (memoryValues) {
+    memoryValues.delete(key);
+  } else {
+    localStorage.removeItem(key);
+  }
+  notifyLocalChange(key);
+};
+
+// Calls `listener` whenever `key` changes, from this page or any other extension context.
+export const subscribeStorage = (key: string, listener: () => void) => {
+  if (hasChromeStorage()) {
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && key in changes) listener();
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }
+  const handleLocalChange = (e: Event) => {
+    if ((e as CustomEvent<string>).detail === key) listener();
+  };
+  window.addEventListener('twin-marks-storage', handleLocalChange);
+  return () => window.removeEventListener('twin-marks-storage', handleLocalChange);
+};
@@ -0,0 +1,91 @@
+import type { BookmarkNode } from './bookmarkService';
+import type { BookmarkMeta } from './metadata';
+import { readStorage, subscribeStorage, writeStorage } from './storage';
+
+// Pseudo-folder id a pane can navigate to. Chrome ids are numeric, so this never collides.
+export const TRASH_FOLDER_ID = 'twin-marks:trash';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const TRASH_KEY = 'trash';
+const RETENTION_KEY = 'trashRetentionDays';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashEntry {
+  id: string;
+  node: BookmarkNode;
+  parentId: string;
+  index: number;
+  deletedAt: number;
+  // Tags and notes of the removed nodes, keyed by their ids in `node`
+  metadata?: Record<string, BookmarkMeta>;
+}
+
+export const getTrashEntries = async (): Promise<TrashEntry[]> => {
+  return readStorage<TrashEntry[]>(TRASH_KEY, []);
+};
+
+const saveTrashEntries = (entries: TrashEntry[]) => writeStorage(TRASH_KEY, entries);
+
+// Every read-modify-write of the trash runs on this chain, so two removals that
+// land together cannot each save a list missing the other's entry.
+let pending: Promise<unknown> = Promise.resolve();
+
+const updateTrash = <T>(update: (entries: TrashEntry[]) => Promise<T>): Promise<T> => {
+  const run = pending.then(async () => update(await getTrashEntries()));
+  pending = run.catch(() => {});
+  return run;
+};
+
+export const addTrashEntry = async (node: BookmarkNode, from: { parentId: string, index: number }, metadata?: Record<string, BookmarkMeta>): Promise<TrashEntry> => {
+  const entry: TrashEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    node,
+    parentId: from.parentId,
+    index: from.index,
+    deletedAt: Date.now(),
+    metadata,
+  };
+  await updateTrash(entries => saveTrashEntries([entry, ...entries]));
+  return entry;
+};
+
+export const getTrashEntry = async (entryId: string): Promise<TrashEntry | null> => {
+  const entries = await getTrashEntries();
+  return entries.find(entry => entry.id === entryId) || null;
+};
+
+export const purgeTrashEntries = async (entryIds: string[]): Promise<void> => {
+  const ids = new Set(entryIds);
+  await updateTrash(entries => saveTrashEntries(entries.filter(entry => !ids.has(entry.id))));
+};
+
+// Drops the newest entry holding bookmark `nodeId`, used when a delete is undone.
+export const discardTrashEntryForNode = (nodeId: string): Promise<TrashEntry | null> =>
+  updateTrash(async entries => {
+    const index = entries.findIndex(entry => entry.node.id === nodeId);
+    if (index === -1) return null;
+    await saveTrashEntries(entries.filter((_, i) => i !== index));
+    return entries[index];
+  });
+
+export const emptyTrash = () => updateTrash(() => saveTrashEntries([]));
+
+export const getTrashRetentionDays = () => readStorage<number>(RETENTION_KEY, DEFAULT_TRASH_RETENTION_DAYS);
+
+export const setTrashRetentionDays = (days: number) => writeStorage(RETENTION_KEY, days);
+
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const days = await getTrashRetentionDays();
+  if (days <= 0) return 0;
+  const cutoff = Date.now() - days * DAY_MS;
+  return updateTrash(async entries => {
+    const kept = entries.filter(entry => entry.deletedAt >= cutoff);
+    if (kept.length !== entries.length) {
+      await saveTrashEntries(kept);
+    }
+    return entries.length - kept.length;
+  });
+};
+
+export const subscribeTrash = (listener: () => void) => subscribeStorage(TRASH_KEY, listener);
@@ -0,0 +1,212 @@
+import { createTree, getSubTree, moveBookmark, removeBookmark, updateBookmark } from './bookmarkService';
+import type { BookmarkNode } from './bookmarkService';
+import { runBatch } from './journal';
+import { normalizeUrl } from './urlNormalize';
+
+export type TreeChangeType = 'added' | 'removed' | 'moved' | 'renamed' | 'url-changed';
+
+export interface TreeChange {
+  key: string;
+  type: TreeChangeType;
+  title: string;
+  url?: string;
+  // Set for everything but 'removed'
+  currentId?: string;
+  // Set for everything but 'added'; for 'removed' it holds the whole snapshot subtree
+  snapshotNode?: BookmarkNode;
+  snapshotParentId?: string;
+  snapshotIndex?: number;
+  snapshotPath: string[];
+  currentPath: string[];
+  // Snapshot-side ancestor ids, used to scope a restore to one folder
+  snapshotAncestors: string[];
+  currentAncestors: string[];
+  before?: string;
+  after?: string;
+}
+
+export interface TreeDiff {
+  changes: TreeChange[];
+  // Snapshot id -> current id for every node found in both trees
+  idMap: Record<string, string>;
+}
+
+interface IndexedNode {
+  node: BookmarkNode;
+  parentId?: string;
+  index: number;
+  ancestors: string[];
+  path: string[];
+}
+
+const indexTree = (roots: BookmarkNode[]) => {
+  const result = new Map<string, IndexedNode>();
+  const walk = (node: BookmarkNode, parentId: string | undefined, index: number, ancestors: string[], path: string[]) => {
+    result.set(node.id, { node, parentId, index, ancestors, path });
+    const childAncestors = [...ancestors, node.id];
+    const childPath = node.title ? [...path, node.title] : path;
+    node.children?.forEach((child, i) => walk(child, node.id, i, childAncestors, childPath));
+  };
+  roots.forEach((root, i) => walk(root, undefined, i, [], []));
+  return result;
+};
+
+/**
+ * Compares a snapshot with the current tree. Nodes are matched by id first and
+ * bookmarks that were deleted and re-added fall back to a normalized URL match.
+ * Added and removed subtrees are reported once, at their top-most node.
+ */
+export const diffTrees = (snapshot: BookmarkNode[], current: BookmarkNode[]): TreeDiff => {
+  const before = indexTree(snapshot);
+  const after = indexTree(current);
+  const idMap = new Map<string, string>();
+  const matchedCurrent = new Set<string>();
+
+  for (const id of before.keys()) {
+    if (after.has(id)) {
+      idMap.set(id, id);
+      matchedCurrent.add(id);
+    }
+  }
+
+  const unmatchedByUrl = new Map<string, string[]>();
+  for (const [id, entry] of after) {
+    if (matchedCurrent.has(id) || !entry.node.url) continue;
+    const key = normalizeUrl(entry.node.url);
+    unmatchedByUrl.set(key, [...(unmatchedByUrl.get(key) || []), id]);
+  }
+  for (const [id, entry] of before) {
+    if (idMap.has(id) || !entry.node.url) continue;
+    const candidates = unmatchedByUrl.get(normalizeUrl(entry.node.url));
+    const currentId = candidates?.shift();
+    if (currentId) {
+      idMap.set(id, currentId);
+      matchedCurrent.add(currentId);
+    }
+  }
+
+  const changes: TreeChange[] = [];
+  const base = (entry: IndexedNode) => ({ title: entry.node.title, url: entry.node.url });
+
+  for (const [id, entry] of before) {
+    const currentId = idMap.get(id);
+    if (!currentId) {
+      if (entry.parentId && !idMap.has(entry.parentId)) continue;
+      changes.push({
+        key: `removed:${id}`,
+        type: 'removed',
+        ...base(entry),
+        snapshotNode: entry.node,
+        snapshotParentId: entry.parentId,
+        snapshotIndex: entry.index,
+        snapshotPath: entry.path,
+        currentPath: [],
+        snapshotAncestors: entry.ancestors,
+        currentAncestors: [],
+      });
+      continue;
+    }
+
+    const now = after.get(currentId)!;
+    const common = {
+      currentId,
+      snapshotNode: entry.node,
+      snapshotParentId: entry.parentId,
+      snapshotIndex: entry.index,
+      snapshotPath: entry.path,
+      currentPath: now.path,
+      snapshotAncestors: entry.ancestors,
+      currentAncestors: now.ancestors,
+    };
+    if (entry.parentId && idMap.get(entry.parentId) !== now.parentId) {
+      changes.push({ key: `moved:${id}`, type: 'moved', ...base(now), ...common });
+    }
+    if (entry.node.title !== now.node.title) {
+      changes.push({ key: `renamed:${id}`, type: 'renamed', ...base(now), ...common, before: entry.node.title, after: now.node.title });
+    }
+    if (entry.node.url && now.node.url && entry.node.url !== now.node.url) {
+      changes.push({ key: `url-changed:${id}`, type: 'url-changed', ...base(now), ...common, before: entry.node.url, after: now.node.url });
+    }
+  }
+
+  for (const [id, entry] of after) {
+    if (matchedCurrent.has(id)) continue;
+    if (entry.parentId && !matchedCurrent.has(entry.parentId)) continue;
+    changes.push({
+      key: `added:${id}`,
+      type: 'added',
+      ...base(entry),
+      currentId: id,
+      snapshotPath: [],
+      currentPath: entry.path,
+      snapshotAncestors: [],
+      currentAncestors: entry.ancestors,
+    });
+  }
+
+  return { changes, idMap: Object.fromEntries(idMap) };
+};
+
+// Whether `change` touches the snapshot folder `folderId` or anything below it.
+export const isChangeInFolder = (change: TreeChange, folderId: string, idMap: Record<string, string>) => {
+  const currentFolderId = idMap[folderId];
+  return (
+    change.snapshotAncestors.includes(folderId) ||
+    change.snapshotNode?.id === folderId ||
+    (!!currentFolderId && (change.currentAncestors.includes(currentFolderId) || change.currentId === currentFolderId))
+  );
+};
+
+// Drops descendants that still exist somewhere else; they are restored by their own 'moved' change.
+const pruneMatched = (node: BookmarkNode, idMap: Map<string, string>): BookmarkNode => ({
+  ...node,
+  children: node.children
+    ?.filter(child => !idMap.has(child.id))
+    .map(child => pruneMatched(child, idMap)),
+});
+
+const clampIndex = async (parentId: string, index?: number) => {
+  if (index === undefined) return undefined;
+  const siblings = await getSubTree(parentId);
+  return Math.min(index, siblings.length);
+};
+
+/**
+ * Reverts the selected changes so those parts of the tree match the snapshot again.
+ * Runs as one undoable step: recreations first so restored folders can take
+ * moved items back, then moves and edits, and removals of added items last.
+ */
+export const restoreChanges = async (selected: TreeChange[], diff: TreeDiff): Promise<void> => {
+  const idMap = new Map(Object.entries(diff.idMap));
+  const byDepthThenIndex = (a: TreeChange, b: TreeChange) =>
+    a.snapshotAncestors.length - b.snapshotAncestors.length || (a.snapshotIndex ?? 0) - (b.snapshotIndex ?? 0);
+
+  await runBatch(`Restore ${selected.length} changes from snapshot`, async (batch) => {
+    for (const change of selected.filter(c => c.type === 'removed').sort(byDepthThenIndex)) {
+      const parentId = change.snapshotParentId && idMap.get(change.snapshotParentId);
+      if (!parentId || !change.snapshotNode) continue;
+      const pruned = pruneMatched(change.snapshotNode, idMap);
+      const created = await createTree(pruned, { parentId, index: await clampIndex(parentId, change.snapshotIndex) }, batch);
+      created?.ids.forEach((id, snapshotId) => idMap.set(snapshotId, id));
+    }
+
+    for (const change of selected.filter(c => c.type === 'moved').sort(byDepthThenIndex)) {
+      const parentId = change.snapshotParentId && idMap.get(change.snapshotParentId);
+      if (!parentId || !change.currentId) continue;
+      await moveBookmark(change.currentId, { parentId, index: await clampIndex(parentId, change.snapshotIndex) }, batch);
+    }
+
+    for (const change of selected) {
+      if (!change.currentId) continue;
+      if (change.type === 'renamed' && change.before !== undefined) {
+        await updateBookmark(change.currentId, { title: change.before }, batch);
+      } else if (change.type === 'url-changed' && change.before !== undefined) {
+        await updateBookmark(change.currentId, { url: change.before }, batch);
+      }
+    }
+
+    for (const change of selected.filter(c => c.type === 'added')) {
+      await removeBookmark(change.currentId!, batch);
+    }
+  });
+};
@@ -0,0 +1,34 @@
+import type { BookmarkNode } from './bookmarkService';
+
+export interface FlatBookmark {
+  node: BookmarkNode;
+  // Titles of the enclosing folders, outermost first (the nameless root is skipped)
+  path: string[];
+  depth: number;
+}
+
+export const flattenTree = (roots: BookmarkNode[]): FlatBookmark[] => {
+  const result: FlatBookmark[] = [];
+  const walk = (node: BookmarkNode, path: string[], depth: number) => {
+    result.push({ node, path, depth });
+    if (node.children) {
+      const childPath = node.title ? [...path, node.title] : path;
+      node.children.forEach(child => walk(child, childPath, depth + 1));
+    }
+  };
+  roots.forEach(root => walk(root, [], 0));
+  return result;
+};
+
+export const formatPath = (path: string[]) => `/${path.join('/')}`;
+
+export const findNode = (roots: BookmarkNode[], id: string): BookmarkNode | null => {
+  for (const root of roots) {
+    if (root.id === id) return root;
+    if (root.children) {
+      const found = findNode(root.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,43 @@
+export interface ParsedUrl {
+  title: string;
+  url: string;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'\])]+/i;
+const MARKDOWN_LINK = /\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)/i;
+
+const titleFromUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname === '/' ? '' : parsed.pathname.replace(/\/$/, '');
+    return `${parsed.hostname.replace(/^www\./, '')}${path}`;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Extracts one bookmark per line from pasted text. Accepts bare URLs,
+ * "Title<TAB>URL" / "Title URL" lines and Markdown links; other lines are skipped.
+ */
+export const parseUrlList = (text: string): ParsedUrl[] => {
+  const result: ParsedUrl[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const markdown = line.match(MARKDOWN_LINK);
+    if (markdown) {
+      result.push({ title: markdown[1].trim() || titleFromUrl(markdown[2]), url: markdown[2] });
+      continue;
+    }
+
+    const match = line.match(URL_PATTERN);
+    if (!match) continue;
+    const url = match[0].replace(/[.,;]+$/, '');
+    const rest = (line.slice(0, match.index) + line.slice(match.index! + match[0].length))
+      .replace(/^[\s\-*|:\t]+|[\s\-*|:\t]+$/g, '');
+    result.push({ title: rest || titleFromUrl(url), url });
+  }
+  return result;
+};
@@ -0,0 +1,55 @@
+// Query parameters that only carry analytics state and never change the page.
+const TRACKING_PARAM_PATTERNS: RegExp[] = [
+  /^utm_/i,
+  /^(fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|igshid|twclid|ttclid)$/i,
+  /^(mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok|vero_id|oly_anon_id|oly_enc_id)$/i,
+  /^(ref_src|ref_url)$/i,
+];
+
+export const isTrackingParam = (name: string) => TRACKING_PARAM_PATTERNS.some(pattern => pattern.test(name));
+
+const parseHttpUrl = (url: string): URL | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Removes tracking parameters but otherwise leaves the URL untouched.
+export const stripTrackingParams = (url: string): string => {
+  const parsed = parseHttpUrl(url);
+  if (!parsed) return url;
+  const names = Array.from(new Set(parsed.searchParams.keys()));
+  const tracking = names.filter(isTrackingParam);
+  if (tracking.length === 0) return url;
+  tracking.forEach(name => parsed.searchParams.delete(name));
+  return parsed.toString();
+};
+
+/**
+ * Reduces a URL to a comparison key: scheme, `www.`, fragment, trailing slash and
+ * tracking parameters are dropped, the host is lower-cased and the query is sorted.
+ * Non-http URLs are only trimmed.
+ */
+export const normalizeUrl = (url: string): string => {
+  const parsed = parseHttpUrl(url);
+  if (!parsed) return url.trim();
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${port}${path}${query}`;
+};
+
+export const getDomain = (url: string): string | null => {
+  const parsed = parseHttpUrl(url);
+  return parsed ? parsed.hostname.toLowerCase().replace(/^www\./, '') : null;
+};
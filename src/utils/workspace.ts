@@ -0,0 +1,74 @@
+import { readStorage, subscribeStorage, writeStorage } from './storage';
+import { DEFAULT_SORT_OPTIONS } from './sorting';
+import type { SortOptions } from './sorting';
+import type { PaneTabs } from './paneTabs';
+
+// Per-pane view settings that survive a reload
+export interface PaneSettings {
+  sort: SortOptions;
+  searchQuery: string;
+  searchAllFolders: boolean;
+}
+
+export interface PaneWorkspace extends PaneSettings {
+  // Folder of the active tab
+  folderId: string;
+  // Missing in workspaces saved before panes had tabs
+  tabs?: PaneTabs;
+}
+
+// Panel id → size in percent, as reported by react-resizable-panels
+export type PanelLayout = Record<string, number>;
+
+export interface WorkspaceState {
+  left: PaneWorkspace;
+  right: PaneWorkspace;
+  // Panes vs. preview; a collapsed preview is stored with size 0
+  mainLayout?: PanelLayout;
+  // Left pane vs. right pane
+  paneLayout?: PanelLayout;
+  previewUrl: string | null;
+}
+
+export interface NamedWorkspace {
+  id: string;
+  name: string;
+  savedAt: number;
+  state: WorkspaceState;
+}
+
+const CURRENT_KEY = 'workspace';
+const NAMED_KEY = 'workspaces';
+
+export const DEFAULT_PANE_SETTINGS: PaneSettings = {
+  sort: DEFAULT_SORT_OPTIONS,
+  searchQuery: '',
+  searchAllFolders: false,
+};
+
+export const getWorkspaceState = () => readStorage<WorkspaceState | null>(CURRENT_KEY, null);
+
+export const saveWorkspaceState = (state: WorkspaceState) => writeStorage(CURRENT_KEY, state);
+
+export const listWorkspaces = () => readStorage<NamedWorkspace[]>(NAMED_KEY, []);
+
+export const subscribeWorkspaces = (listener: () => void) => subscribeStorage(NAMED_KEY, listener);
+
+// Saving under an existing name replaces that workspace.
+export const saveNamedWorkspace = async (name: string, state: WorkspaceState): Promise<NamedWorkspace> => {
+  const workspaces = await listWorkspaces();
+  const existing = workspaces.find(workspace => workspace.name === name.trim());
+  const saved: NamedWorkspace = {
+    id: existing?.id ?? Date.now().toString(36),
+    name: name.trim(),
+    savedAt: Date.now(),
+    state,
+  };
+  await writeStorage(NAMED_KEY, [saved, ...workspaces.filter(workspace => workspace.id !== saved.id)]);
+  return saved;
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const workspaces = await listWorkspaces();
+  await writeStorage(NAMED_KEY, workspaces.filter(workspace => workspace.id !== id));
+};